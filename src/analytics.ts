@@ -0,0 +1,241 @@
+import express, { Request, Response } from "express";
+import { Document } from "mongodb";
+
+import { getResultCache, getResultCacheKey } from "./analyticsCache";
+import {
+  getGrant,
+  getReadableCollections,
+  hasAccess,
+  requireRole,
+} from "./auth";
+import {
+  executeAnalyticsQuery,
+  explainAnalyticsQuery,
+  getSupportedGames,
+  QUERY_TIMEOUT_ERROR,
+} from "./db";
+import { exportData } from "./export";
+import { getFunnel } from "./funnel";
+import { streamEvents } from "./live";
+import { PipelineChange, validatePipeline } from "./pipeline";
+import { getRetention } from "./players";
+import { getRunTimeline, listPlayerRuns } from "./runs";
+import { getTimeseries } from "./timeseries";
+import { rateLimit, RateLimitTarget } from "./rateLimit";
+import {
+  AnalyticsQuery,
+  analyticsQuerySchema,
+  AnalyticsQuerySettings,
+  AnalyticsQueryStats,
+} from "./types";
+import { formatValidationErrors, validateInput } from "./validation";
+
+// Time budget of a single analytics query, by the caller's strongest role
+export const getQueryTimeBudget = (admin: boolean) =>
+  admin
+    ? Number(process.env.ADMIN_QUERY_TIMEOUT_MS || 60000)
+    : Number(process.env.ANALYST_QUERY_TIMEOUT_MS || 10000);
+
+// Larger collections may only be queried through an index
+const getMaxCollectionScanSize = () =>
+  Number(process.env.MAX_COLLECTION_SCAN_DOCS || 100000);
+
+const getAnalytics = async (req: Request, res: Response) => {
+  const validationResult = await validateInput<AnalyticsQuery>(
+    analyticsQuerySchema,
+    req.body
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid query data",
+      message: "Query validation failed",
+      details: errors,
+    });
+  }
+
+  const queryData = validationResult.data;
+
+  // Validate game is supported
+  if (!getSupportedGames().includes(queryData.game)) {
+    return res.status(400).json({
+      error: "Invalid game",
+      message: "Game is not supported",
+    });
+  }
+
+  return runAnalyticsQuery(res, queryData.game, queryData.pipeline, queryData);
+};
+
+// Respond with the results alone, or with the whole report when asked for it.
+// Either way X-Cache and Age tell whether the results came from the cache and
+// how old they are (in seconds).
+const sendQueryReport = (
+  res: Response,
+  settings: AnalyticsQuerySettings,
+  report: {
+    results: Document[];
+    changes: PipelineChange[];
+    stats: AnalyticsQueryStats;
+    cached: boolean;
+    age_ms: number;
+  }
+) => {
+  res.set("X-Cache", report.cached ? "HIT" : "MISS");
+  res.set("Age", String(Math.floor(report.age_ms / 1000)));
+  return res.json(settings.format === "report" ? report : report.results);
+};
+
+// Validate and run an analytics pipeline for a game the caller may query,
+// within the caller's time budget, and respond with its results and cost
+export const runAnalyticsQuery = async (
+  res: Response,
+  game: string,
+  pipeline: Document[],
+  settings: AnalyticsQuerySettings
+) => {
+  // Validate the pipeline, refusing stages the caller is not allowed to run
+  const validation = validatePipeline(pipeline, {
+    lenient: settings.lenient,
+    readableCollections: getReadableCollections(getGrant(res)),
+  });
+  if (validation.rejections.length > 0) {
+    return res.status(400).json({
+      error: "Invalid pipeline",
+      message: "Pipeline validation failed",
+      details: validation.rejections,
+    });
+  }
+
+  const admin = hasAccess(getGrant(res), "admin", game);
+  if (settings.allow_disk_use && !admin) {
+    return res.status(403).json({
+      error: "Forbidden",
+      message: "Only admins can allow analytics queries to use disk",
+    });
+  }
+
+  const budget = getQueryTimeBudget(admin);
+  const options = {
+    maxTimeMS: Math.min(settings.max_time_ms ?? budget, budget),
+    allowDiskUse: settings.allow_disk_use,
+    includeStats: settings.include_stats,
+  };
+
+  // Serve repeated queries from the result cache unless asked not to
+  const cacheKey = getResultCacheKey(game, validation.pipeline, options);
+  const cached = settings.cache ? getResultCache().get(cacheKey) : undefined;
+  if (cached) {
+    return sendQueryReport(res, settings, {
+      results: cached.result.results,
+      changes: validation.changes,
+      stats: cached.result.stats,
+      cached: true,
+      age_ms: Date.now() - cached.cached_at.getTime(),
+    });
+  }
+
+  // Refuse whole-collection scans of large collections before running them
+  const plan = await explainAnalyticsQuery(game, validation.pipeline);
+  if (!plan.success || !plan.data) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to plan analytics query",
+    });
+  }
+
+  const maxScanSize = getMaxCollectionScanSize();
+  if (plan.data.collection_scan && plan.data.collection_size > maxScanSize) {
+    return res.status(400).json({
+      error: "Query too expensive",
+      message: `Pipeline would scan all ${plan.data.collection_size} events; start it with a $match on an indexed field`,
+    });
+  }
+
+  // Cancel the query if the client disconnects before it finishes
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  // Execute the analytics query
+  const result = await executeAnalyticsQuery(game, validation.pipeline, {
+    ...options,
+    signal: controller.signal,
+  });
+  if (controller.signal.aborted) {
+    return;
+  }
+  if (!result.success && result.error === QUERY_TIMEOUT_ERROR) {
+    return res.status(504).json({
+      error: "Query timeout",
+      message: `Query exceeded its time limit of ${options.maxTimeMS}ms`,
+    });
+  }
+  if (!result.success || !result.data) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to execute analytics query",
+    });
+  }
+
+  getResultCache().set(cacheKey, result.data);
+
+  sendQueryReport(res, settings, {
+    results: result.data.results,
+    changes: validation.changes,
+    stats: result.data.stats,
+    cached: false,
+    age_ms: 0,
+  });
+};
+
+// Reports take the game from the path, the body (POST) or the query string (GET)
+const getAnalyticsTargets = (req: Request): RateLimitTarget[] => {
+  const game =
+    req.params.game ?? (req.method === "GET" ? req.query.game : req.body?.game);
+  return typeof game === "string" ? [{ game, cost: 1 }] : [];
+};
+
+export const createAnalyticsRoutes = () => {
+  const router = express.Router();
+
+  const analyticsLimit = rateLimit("analytics", getAnalyticsTargets);
+
+  router.post(
+    "/query",
+    requireRole("analyst", (req) => req.body?.game),
+    analyticsLimit,
+    getAnalytics
+  );
+  router.post(
+    "/funnel",
+    requireRole("analyst", (req) => req.body?.game),
+    analyticsLimit,
+    getFunnel
+  );
+  router.post(
+    "/retention",
+    requireRole("analyst", (req) => req.body?.game),
+    analyticsLimit,
+    getRetention
+  );
+
+  const requireGameAnalyst = requireRole("analyst", (req) => req.query.game);
+  router.get("/players/:player/runs", requireGameAnalyst, listPlayerRuns);
+  router.get("/players/:player/runs/:run", requireGameAnalyst, getRunTimeline);
+  router.get("/timeseries", requireGameAnalyst, analyticsLimit, getTimeseries);
+  router.get("/live", requireGameAnalyst, streamEvents);
+
+  router.get(
+    "/export/:game/:kind",
+    requireRole("analyst", (req) => req.params.game),
+    analyticsLimit,
+    exportData
+  );
+
+  return router;
+};
@@ -0,0 +1,93 @@
+import { BSON, Document } from "mongodb";
+
+import { AnalyticsQueryOptions, AnalyticsQueryResult } from "./types";
+
+export interface CachedResult {
+  result: AnalyticsQueryResult;
+  cached_at: Date;
+}
+
+export interface ResultCache {
+  get(key: string, now?: number): CachedResult | undefined;
+  set(key: string, result: AnalyticsQueryResult, now?: number): void;
+  // Drop the results of one game (after its data changed)
+  clearGame(game: string): void;
+  clear(): void;
+}
+
+// Keyed on the validated pipeline (after parameters and injected limits), as
+// extended JSON so dates and ObjectIds do not collide with strings, and on the
+// options that change how the query runs and the stats reported with it
+export const getResultCacheKey = (
+  game: string,
+  pipeline: Document[],
+  options: Omit<AnalyticsQueryOptions, "signal">
+) => {
+  const { maxTimeMS, allowDiskUse, includeStats } = options;
+  return [
+    game,
+    maxTimeMS,
+    allowDiskUse,
+    includeStats,
+    BSON.EJSON.stringify(pipeline, { relaxed: false }),
+  ].join(":");
+};
+
+// In-memory result cache, evicting expired entries first and then the oldest
+export const createResultCache = (
+  ttlMs: number,
+  maxEntries: number
+): ResultCache => {
+  const entries = new Map<string, CachedResult>();
+
+  return {
+    get(key, now = Date.now()) {
+      const entry = entries.get(key);
+      if (entry && now - entry.cached_at.getTime() >= ttlMs) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry;
+    },
+    set(key, result, now = Date.now()) {
+      if (ttlMs <= 0) {
+        return;
+      }
+
+      entries.delete(key);
+      for (const [oldKey, entry] of entries) {
+        if (
+          entries.size < maxEntries &&
+          now - entry.cached_at.getTime() < ttlMs
+        ) {
+          break;
+        }
+        entries.delete(oldKey);
+      }
+      entries.set(key, { result, cached_at: new Date(now) });
+    },
+    clearGame(game) {
+      for (const key of entries.keys()) {
+        if (key.startsWith(`${game}:`)) {
+          entries.delete(key);
+        }
+      }
+    },
+    clear() {
+      entries.clear();
+    },
+  };
+};
+
+let resultCache: ResultCache | undefined;
+
+// Shared cache of analytics results (ANALYTICS_CACHE_TTL_MS=0 disables it)
+export const getResultCache = (): ResultCache => {
+  if (!resultCache) {
+    resultCache = createResultCache(
+      Number(process.env.ANALYTICS_CACHE_TTL_MS ?? 60000),
+      Number(process.env.ANALYTICS_CACHE_MAX_ENTRIES || 500)
+    );
+  }
+  return resultCache;
+};
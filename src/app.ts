@@ -2,10 +2,26 @@ import express, { Request, Response } from "express";
 import cors from "cors";
 
 import { createEventRoutes } from "./events";
+import { createAnalyticsRoutes } from "./analytics";
+import { createGameRoutes } from "./games";
+import { createTokenRoutes } from "./tokens";
+import { createSavedQueryRoutes } from "./savedQueries";
+import { createViewRoutes } from "./views";
+import { createPrivacyRoutes } from "./privacy";
+import {
+  API_KEY_HEADER,
+  RawBodyRequest,
+  SIGNATURE_HEADER,
+  SIGNATURE_TIMESTAMP_HEADER,
+} from "./auth";
 
 export const createApp = async () => {
   const app = express();
 
+  // Number of proxies in front of the server (e.g. 1 behind the Heroku router),
+  // so rate limits see the client IP rather than the proxy's
+  app.set("trust proxy", Number(process.env.TRUST_PROXY_HOPS || 0));
+
   // CORS middleware - configure to allow requests from itch.io and other origins
   app.use(
     cors({
@@ -16,14 +32,27 @@ export const createApp = async () => {
         "http://localhost:3000", // for local development
         "http://localhost:8080", // for local development
       ],
-      methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-      allowedHeaders: ["Content-Type", "Authorization"],
+      methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
+      allowedHeaders: [
+        "Content-Type",
+        "Authorization",
+        API_KEY_HEADER,
+        SIGNATURE_HEADER,
+        SIGNATURE_TIMESTAMP_HEADER,
+      ],
       credentials: true,
     })
   );
 
-  // Middleware
-  app.use(express.json());
+  // Middleware (keep the raw body around so request signatures can be verified)
+  app.use(
+    express.json({
+      limit: "1mb", // room for batches of events
+      verify: (req, _res, buf) => {
+        (req as RawBodyRequest).rawBody = buf;
+      },
+    })
+  );
 
   // Health check endpoint
   app.get("/health", (req: Request, res: Response) => {
@@ -36,6 +65,14 @@ export const createApp = async () => {
 
   // Use event routes
   app.use("/api", createEventRoutes());
+  app.use("/api/analytics/saved", createSavedQueryRoutes());
+  app.use("/api/analytics/views", createViewRoutes());
+  app.use("/api/analytics", createAnalyticsRoutes());
+
+  // Admin routes for managing the game registry, access tokens and player data
+  app.use("/api/admin/games", createGameRoutes());
+  app.use("/api/admin/tokens", createTokenRoutes());
+  app.use("/api/admin/privacy", createPrivacyRoutes());
 
   return app;
 };
@@ -0,0 +1,259 @@
+import { NextFunction, Request, Response } from "express";
+import crypto from "crypto";
+
+import {
+  findActiveAccessToken,
+  findActiveApiKey,
+  getDailyEventsCollectionName,
+  getEventsCollectionName,
+  getRollupsCollectionName,
+  getGameConfig,
+  getScoresCollectionName,
+  getSupportedGames,
+} from "./db";
+import { ACCESS_ROLES, AccessGrant, AccessRole } from "./types";
+
+// Headers used to authenticate event ingestion
+export const API_KEY_HEADER = "x-api-key";
+export const SIGNATURE_HEADER = "x-signature";
+export const SIGNATURE_TIMESTAMP_HEADER = "x-signature-timestamp";
+
+// Signed requests older (or newer) than this are rejected to limit replays
+const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+// Request with the raw body captured by the JSON parser (needed to check signatures)
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+// Failed ingestion checks carry the status code and the { error, message } body
+export interface AuthFailure {
+  status: 401 | 403 | 500;
+  error: string;
+  message: string;
+}
+
+// Compare two secrets without leaking timing information
+export const safeEqual = (a: string, b: string) => {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return (
+    bufferA.length === bufferB.length &&
+    crypto.timingSafeEqual(bufferA, bufferB)
+  );
+};
+
+// Extract the token from an "Authorization: Bearer <token>" header
+export const getBearerToken = (req: Request): string | undefined => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith("Bearer ")) {
+    return undefined;
+  }
+  return header.slice("Bearer ".length).trim() || undefined;
+};
+
+// Resolve the bearer token of a request to what it is allowed to do. The
+// ADMIN_API_KEY env variable is an admin token for every game.
+export const authenticate = async (
+  req: Request
+): Promise<AccessGrant | undefined> => {
+  const token = getBearerToken(req);
+  if (!token) {
+    return undefined;
+  }
+
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (adminKey && safeEqual(token, adminKey)) {
+    return { name: "admin", role: "admin", games: ["*"] };
+  }
+
+  const result = await findActiveAccessToken(token);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  if (!result.data) {
+    return undefined;
+  }
+
+  const { name, role, games } = result.data;
+  return { name, role, games };
+};
+
+// Whether a grant has at least the given role, on a game if one is given
+// (without a game the grant must cover every game)
+export const hasAccess = (
+  grant: AccessGrant,
+  role: AccessRole,
+  game?: string
+) => {
+  if (ACCESS_ROLES.indexOf(grant.role) < ACCESS_ROLES.indexOf(role)) {
+    return false;
+  }
+  return (
+    grant.games.includes("*") ||
+    (game !== undefined && grant.games.includes(game))
+  );
+};
+
+// The grant of a request that went through requireRole
+export const getGrant = (res: Response): AccessGrant => {
+  return res.locals.grant;
+};
+
+// Only allow requests whose bearer token has at least the given role. scope picks
+// the game the request is about, or is "all" when the role must cover every game
+// and "any" when the role on any game is enough.
+export const requireRole = (
+  role: AccessRole,
+  scope: "all" | "any" | ((req: Request) => unknown) = "all"
+) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    let grant: AccessGrant | undefined;
+    try {
+      grant = await authenticate(req);
+    } catch (error) {
+      console.error("Error authenticating request:", error);
+      return res.status(500).json({
+        error: "Database error",
+        message: "Failed to verify access token",
+      });
+    }
+
+    if (!grant) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "Missing or invalid access token",
+      });
+    }
+
+    let allowed: boolean;
+    if (scope === "any") {
+      allowed = grant.games.some((game) => hasAccess(grant!, role, game));
+    } else if (scope === "all") {
+      allowed = hasAccess(grant, role);
+    } else {
+      const game = scope(req);
+      allowed = typeof game === "string" && hasAccess(grant, role, game);
+    }
+
+    if (!allowed) {
+      return res.status(403).json({
+        error: "Forbidden",
+        message: `Access token does not have the ${role} role for this game`,
+      });
+    }
+
+    res.locals.grant = grant;
+    next();
+  };
+};
+
+// Collections an analytics query of a grant may read, e.g. through $lookup
+export const getReadableCollections = (grant: AccessGrant) => {
+  return getSupportedGames()
+    .filter((game) => hasAccess(grant, "analyst", game))
+    .flatMap((game) => [
+      getEventsCollectionName(game),
+      getScoresCollectionName(game),
+      getRollupsCollectionName(game),
+      getDailyEventsCollectionName(game),
+    ]);
+};
+
+// Sign a request body the same way game clients are expected to
+export const signPayload = (key: string, timestamp: string, body: Buffer) => {
+  return crypto
+    .createHmac("sha256", key)
+    .update(`${timestamp}.`)
+    .update(body)
+    .digest("hex");
+};
+
+// Check the API key and signature headers of an ingestion request for a game.
+// Keys and signatures are always verified when present, and required when the
+// game's require_api_key / require_signature settings are enabled.
+export const verifyIngestRequest = async (
+  req: RawBodyRequest,
+  game: string
+): Promise<AuthFailure | undefined> => {
+  const gameConfig = getGameConfig(game);
+  const key = req.get(API_KEY_HEADER);
+  const signature = req.get(SIGNATURE_HEADER);
+  const requireKey =
+    gameConfig?.require_api_key || gameConfig?.require_signature;
+
+  if (!key) {
+    // Server-side integrations can authenticate with an ingest access token instead
+    const grant = await authenticate(req).catch(() => undefined);
+    if (grant && hasAccess(grant, "ingest", game)) {
+      return undefined;
+    }
+
+    if (requireKey) {
+      return {
+        status: 401,
+        error: "Unauthorized",
+        message: "Missing API key",
+      };
+    }
+    return undefined;
+  }
+
+  const apiKeyResult = await findActiveApiKey(key);
+  if (!apiKeyResult.success) {
+    return {
+      status: 500,
+      error: "Database error",
+      message: "Failed to verify API key",
+    };
+  }
+  if (!apiKeyResult.data || apiKeyResult.data.game !== game) {
+    return {
+      status: 403,
+      error: "Forbidden",
+      message: "API key is not valid for this game",
+    };
+  }
+
+  if (!signature) {
+    if (gameConfig?.require_signature) {
+      return {
+        status: 401,
+        error: "Unauthorized",
+        message: "Missing request signature",
+      };
+    }
+    return undefined;
+  }
+
+  const timestamp = req.get(SIGNATURE_TIMESTAMP_HEADER);
+  if (!timestamp || !/^\d+$/.test(timestamp)) {
+    return {
+      status: 401,
+      error: "Unauthorized",
+      message: "Missing or invalid signature timestamp",
+    };
+  }
+  if (Math.abs(Date.now() - Number(timestamp)) > SIGNATURE_TOLERANCE_MS) {
+    return {
+      status: 403,
+      error: "Forbidden",
+      message: "Signature timestamp is outside the allowed window",
+    };
+  }
+
+  const expected = signPayload(
+    apiKeyResult.data.key,
+    timestamp,
+    req.rawBody || Buffer.alloc(0)
+  );
+  if (!safeEqual(signature, expected)) {
+    return {
+      status: 403,
+      error: "Forbidden",
+      message: "Invalid request signature",
+    };
+  }
+
+  return undefined;
+};
@@ -0,0 +1,240 @@
+import crypto from "crypto";
+import express, { Request, Response } from "express";
+
+import {
+  claimRetentionPurge,
+  countExpiredEvents,
+  getGameConfig,
+  markExpiredEvents,
+  purgeExpiredEvents,
+  rollupExpiredEvents,
+} from "./db";
+import { scheduleJob } from "./scheduler";
+import {
+  DatabaseResult,
+  RetentionReport,
+  RetentionSettings,
+  retentionReportQuerySchema,
+} from "./types";
+import { formatValidationErrors, validateInput } from "./validation";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Event names kept forever unless a game lists its own
+const DEFAULT_KEPT_EVENTS = ["high_score"];
+
+// How often each game with a retention policy is purged
+const RETENTION_PURGE_INTERVAL_MS =
+  Number(process.env.RETENTION_PURGE_INTERVAL_MS) || 60 * 60 * 1000;
+
+// How often the scheduler looks for games due for a purge
+const RETENTION_SCHEDULER_INTERVAL_MS = 60000;
+
+// Games purged per scheduler tick, the rest wait for the next one
+const MAX_PURGES_PER_TICK = 5;
+
+// A purge started this recently may still be running, so a manual purge waits
+const MANUAL_PURGE_MIN_INTERVAL_MS = 5 * 60 * 1000;
+
+const getRetentionPolicy = (
+  settings: RetentionSettings & { event_days: number },
+  now: Date
+) => ({
+  cutoff: new Date(now.getTime() - settings.event_days * MS_PER_DAY),
+  keepEvents: settings.keep_events ?? DEFAULT_KEPT_EVENTS,
+  rollup: settings.rollup ?? false,
+});
+
+const hasEventRetention = (
+  settings?: RetentionSettings
+): settings is RetentionSettings & { event_days: number } =>
+  settings?.event_days !== undefined;
+
+// Roll up (when enabled) and delete the events a retention policy expires. The
+// events are picked first, so events of a purge that failed half way are
+// finished by the next one.
+export const purgeGameEvents = async (
+  game: string,
+  settings: RetentionSettings & { event_days: number },
+  now: Date = new Date()
+): Promise<DatabaseResult<{ rolled_up: number; deleted: number }>> => {
+  const { cutoff, keepEvents, rollup } = getRetentionPolicy(settings, now);
+
+  const marked = await markExpiredEvents(
+    game,
+    cutoff,
+    keepEvents,
+    crypto.randomBytes(8).toString("hex")
+  );
+  if (!marked.success) {
+    return { success: false, error: marked.error };
+  }
+
+  let rolledUp = 0;
+  if (rollup) {
+    // Nothing is deleted unless its events were counted first
+    const result = await rollupExpiredEvents(game);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+    rolledUp = result.data ?? 0;
+  }
+
+  const result = await purgeExpiredEvents(game, rollup);
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+
+  return {
+    success: true,
+    data: { rolled_up: rolledUp, deleted: result.data ?? 0 },
+  };
+};
+
+// Purge every game that is due, claiming each one first so that several
+// server instances never purge the same game at once
+export const purgeDueGames = async () => {
+  for (let i = 0; i < MAX_PURGES_PER_TICK; i++) {
+    const claim = await claimRetentionPurge(
+      new Date(),
+      RETENTION_PURGE_INTERVAL_MS
+    );
+    if (!claim.success || !claim.data) {
+      return;
+    }
+
+    const { name, retention } = claim.data;
+    if (!hasEventRetention(retention)) {
+      continue;
+    }
+    const result = await purgeGameEvents(name, retention);
+    if (!result.success) {
+      console.error(`Failed to purge expired events of ${name}:`, result.error);
+    } else if (result.data?.deleted) {
+      console.log(
+        `Purged ${result.data.deleted} events of ${name} older than ${retention.event_days} days`
+      );
+    }
+  }
+};
+
+export const scheduleRetentionPurge = () => {
+  scheduleJob(
+    "retention_purge",
+    RETENTION_SCHEDULER_INTERVAL_MS,
+    purgeDueGames
+  );
+};
+
+// Dry run: what the game's retention policy (or the one given in the query
+// string, to try one out before saving it) would purge now
+const getRetentionReport = async (req: Request, res: Response) => {
+  const game = getGameConfig(req.params.game);
+  if (!game) {
+    return res.status(404).json({
+      error: "Game not found",
+      message: "No game is registered with this name",
+    });
+  }
+
+  const validationResult = await validateInput<RetentionSettings>(
+    retentionReportQuerySchema,
+    req.query
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid query parameters",
+      message: "Query validation failed",
+      details: errors,
+    });
+  }
+
+  const settings = { ...game.retention, ...validationResult.data };
+  if (!hasEventRetention(settings)) {
+    return res.status(400).json({
+      error: "No retention policy",
+      message:
+        "The game keeps its events forever, pass event_days to try a policy",
+    });
+  }
+
+  const { cutoff, keepEvents, rollup } = getRetentionPolicy(
+    settings,
+    new Date()
+  );
+  const result = await countExpiredEvents(game.name, cutoff, keepEvents);
+  if (!result.success || !result.data) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to count expired events",
+    });
+  }
+
+  const report: RetentionReport = {
+    cutoff,
+    keep_events: keepEvents,
+    rollup,
+    events: result.data.reduce((total, { count }) => total + count, 0),
+    by_event_name: result.data,
+  };
+  res.json(report);
+};
+
+// Run the game's retention policy now instead of waiting for the scheduler,
+// claiming the game like the scheduler does
+const purgeNow = async (req: Request, res: Response) => {
+  const game = getGameConfig(req.params.game);
+  if (!game) {
+    return res.status(404).json({
+      error: "Game not found",
+      message: "No game is registered with this name",
+    });
+  }
+  if (!hasEventRetention(game.retention)) {
+    return res.status(400).json({
+      error: "No retention policy",
+      message: "The game keeps its events forever",
+    });
+  }
+
+  const claim = await claimRetentionPurge(
+    new Date(),
+    MANUAL_PURGE_MIN_INTERVAL_MS,
+    game.name
+  );
+  if (!claim.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to purge expired events",
+    });
+  }
+  if (!claim.data) {
+    return res.status(409).json({
+      error: "Conflict",
+      message: "A purge of the game started recently, try again later",
+    });
+  }
+
+  const result = await purgeGameEvents(game.name, game.retention);
+  if (!result.success || !result.data) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to purge expired events",
+    });
+  }
+
+  res.json(result.data);
+};
+
+// Admin routes for the retention policy of a game (the policy itself is part
+// of the game settings)
+export const createRetentionRoutes = () => {
+  const router = express.Router({ mergeParams: true });
+
+  router.get("/", getRetentionReport);
+  router.post("/purge", purgeNow);
+
+  return router;
+};
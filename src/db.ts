@@ -1,6 +1,64 @@
-import { MongoClient, Db, Collection, Document } from "mongodb";
+import {
+  MongoClient,
+  Db,
+  Collection,
+  AnyBulkWriteOperation,
+  Document,
+  Filter,
+  FindCursor,
+  FindOptions,
+  MongoBulkWriteError,
+  ObjectId,
+} from "mongodb";
+import crypto from "crypto";
 
-import { GameEvent, ScoreRecord, DatabaseResult, EventRecord } from "./types";
+import {
+  GameEvent,
+  ScoreRecord,
+  DatabaseResult,
+  EventRecord,
+  GameConfig,
+  CreateGameInput,
+  UpdateGameInput,
+  ApiKeyRecord,
+  BulkInsertResult,
+  InsertResult,
+  RunActivity,
+  ScoreFlag,
+  HighScoreOptions,
+  PlayerRank,
+  LeaderboardCursor,
+  LeaderboardOrder,
+  PlayerBan,
+  AccessToken,
+  AccessRole,
+  AnalyticsQueryOptions,
+  AnalyticsQueryPlan,
+  AnalyticsQueryResult,
+  AnalyticsQueryStats,
+  SavedQuery,
+  SavedQueryVersion,
+  SaveQueryInput,
+  MaterializedView,
+  RollupRow,
+  PlayerSummary,
+  PlayerActivity,
+  PlayerActivityQuery,
+  RunSummary,
+  TimeseriesPoint,
+  TimeseriesQuery,
+  EventSchema,
+  SaveEventSchemaInput,
+  DailyEventCount,
+  PlayerData,
+  PlayerDataChanges,
+  PrivacyRequest,
+  Webhook,
+  CreateWebhookInput,
+  WebhookDelivery,
+  WebhookDeliveriesQuery,
+  GameVersion,
+} from "./types";
 
 // MongoDB connection options
 const mongoOptions = {
@@ -9,17 +67,43 @@ const mongoOptions = {
   socketTimeoutMS: 45000, // Close sockets after 45 seconds of inactivity
 };
 
-// TODO: Move this to a collection or env variable
-const SUPPORTED_GAMES = [
+// Games that were supported before the registry existed, seeded into an empty games collection
+const DEFAULT_GAMES = [
   "eldritch_shores",
   "whacky_wharf",
   "collapse_protocol",
   "gundig",
 ];
 
+const GAMES_COLLECTION = "games";
+const API_KEYS_COLLECTION = "api_keys";
+const PLAYER_BANS_COLLECTION = "player_bans";
+const ACCESS_TOKENS_COLLECTION = "access_tokens";
+const SAVED_QUERIES_COLLECTION = "saved_queries";
+const SAVED_QUERY_VERSIONS_COLLECTION = "saved_query_versions";
+const MATERIALIZED_VIEWS_COLLECTION = "materialized_views";
+const EVENT_SCHEMAS_COLLECTION = "event_schemas";
+const PRIVACY_REQUESTS_COLLECTION = "privacy_requests";
+const WEBHOOKS_COLLECTION = "webhooks";
+const WEBHOOK_DELIVERIES_COLLECTION = "webhook_deliveries";
+const GAME_VERSIONS_COLLECTION = "game_versions";
+
+// Webhook deliveries are kept in the delivery log for this long
+const WEBHOOK_DELIVERY_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+// Privacy requests listed at once (the most recent ones)
+const PRIVACY_REQUESTS_LIMIT = 200;
+
+// How often the game registry cache is reloaded (picks up changes made by other instances)
+const GAME_REGISTRY_REFRESH_MS = 60000;
+
 let client: MongoClient;
 let db: Db;
 
+// Cached copy of the games collection, keyed by game name
+let gameRegistry = new Map<string, GameConfig>();
+let gameRegistryTimer: NodeJS.Timeout | undefined;
+
 export const connectDB = async (mongoUri: string) => {
   try {
     client = new MongoClient(mongoUri, mongoOptions);
@@ -28,7 +112,8 @@ export const connectDB = async (mongoUri: string) => {
     db = client.db();
     console.log(`MongoDB Connected: ${client.db().databaseName}`);
 
-    // Initialize game collections
+    // Load the game registry and initialize game collections
+    await initializeGameRegistry();
     await initializeGameCollections();
 
     // Handle connection events
@@ -62,19 +147,106 @@ export const connectDB = async (mongoUri: string) => {
 };
 
 export const disconnectDB = async () => {
+  if (gameRegistryTimer) {
+    clearInterval(gameRegistryTimer);
+    gameRegistryTimer = undefined;
+  }
   await client.close();
 };
 
+const initializeGameRegistry = async () => {
+  const gamesCollection = getGamesCollection();
+  await gamesCollection.createIndex({ name: 1 }, { unique: true });
+
+  // Seed the registry with the games that used to be hard-coded
+  if ((await gamesCollection.countDocuments()) === 0) {
+    const now = new Date();
+    await gamesCollection.insertMany(
+      DEFAULT_GAMES.map((name) => ({
+        name,
+        display_name: name,
+        modes: [],
+        archived: false,
+        created_at: now,
+        updated_at: now,
+      }))
+    );
+    console.log("Seeded games collection with default games");
+  }
+
+  await refreshGameRegistry();
+
+  const apiKeysCollection = getApiKeysCollection();
+  await apiKeysCollection.createIndex({ key: 1 }, { unique: true });
+  await apiKeysCollection.createIndex({ game: 1, key_id: 1 }, { unique: true });
+
+  await getAccessTokensCollection().createIndex(
+    { token_hash: 1 },
+    { unique: true }
+  );
+
+  await getPlayerBansCollection().createIndex(
+    { game: 1, player: 1 },
+    { unique: true }
+  );
+
+  await getSavedQueriesCollection().createIndex(
+    { game: 1, name: 1 },
+    { unique: true }
+  );
+  await getSavedQueryVersionsCollection().createIndex(
+    { game: 1, name: 1, version: -1 },
+    { unique: true }
+  );
+
+  const viewsCollection = getMaterializedViewsCollection();
+  await viewsCollection.createIndex({ game: 1, name: 1 }, { unique: true });
+  await viewsCollection.createIndex({ next_run_at: 1 });
+
+  await getEventSchemasCollection().createIndex(
+    { game: 1, event_name: 1 },
+    { unique: true }
+  );
+
+  await getPrivacyRequestsCollection().createIndex({
+    player_hash: 1,
+    created_at: -1,
+  });
+
+  await getWebhooksCollection().createIndex(
+    { game: 1, webhook_id: 1 },
+    { unique: true }
+  );
+  const deliveriesCollection = getWebhookDeliveriesCollection();
+  await deliveriesCollection.createIndex({ status: 1, next_attempt_at: 1 });
+  await deliveriesCollection.createIndex({ webhook_id: 1, created_at: -1 });
+  await deliveriesCollection.createIndex(
+    { created_at: 1 },
+    { expireAfterSeconds: WEBHOOK_DELIVERY_RETENTION_SECONDS }
+  );
+  await deliveriesCollection.createIndex(
+    { game: 1, player: 1 },
+    { partialFilterExpression: { player: { $exists: true } } }
+  );
+  await getGameVersionsCollection().createIndex(
+    { game: 1, field: 1, version: 1 },
+    { unique: true }
+  );
+
+  gameRegistryTimer = setInterval(() => {
+    refreshGameRegistry().catch((error) => {
+      console.error("Error refreshing game registry:", error);
+    });
+  }, GAME_REGISTRY_REFRESH_MS);
+  gameRegistryTimer.unref();
+};
+
 const initializeGameCollections = async () => {
   try {
     console.log("Initializing game collections...");
 
-    for (const game of SUPPORTED_GAMES) {
-      await ensureCollectionExists(getEventsCollectionName(game));
-      await ensureCollectionExists(getScoresCollectionName(game));
-
-      // Create indexes for better performance
-      await createCollectionIndexes(game);
+    for (const game of gameRegistry.keys()) {
+      await initializeGameCollection(game);
     }
 
     console.log("Game collections initialized successfully");
@@ -84,6 +256,15 @@ const initializeGameCollections = async () => {
   }
 };
 
+// Create the collections and indexes used by a single game
+const initializeGameCollection = async (game: string) => {
+  await ensureCollectionExists(getEventsCollectionName(game));
+  await ensureCollectionExists(getScoresCollectionName(game));
+
+  // Create indexes for better performance
+  await createCollectionIndexes(game);
+};
+
 const ensureCollectionExists = async (collectionName: string) => {
   // Check if collection exists, create if it doesn't
   const collections = await db
@@ -97,17 +278,86 @@ const ensureCollectionExists = async (collectionName: string) => {
   }
 };
 
+// Client event ids are optional, so they are only unique among documents that have one
+const EVENT_ID_FILTER = { event_id: { $exists: true } };
+
+// MongoDB error code for a unique index violation
+const DUPLICATE_KEY_ERROR = 11000;
+
+// Summaries written per bulk write when rebuilding player summaries
+const REBUILD_BATCH_SIZE = 500;
+
+const isDuplicateKeyError = (error: unknown) => {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { code?: unknown }).code === DUPLICATE_KEY_ERROR
+  );
+};
+
 const createCollectionIndexes = async (game: string) => {
   try {
     // Events collection indexes
     const eventsCollection = getEventsCollection(game);
     await eventsCollection.createIndex({ mode: 1 });
     await eventsCollection.createIndex({ timestamp: -1 });
+    await eventsCollection.createIndex(
+      { event_id: 1 },
+      { unique: true, partialFilterExpression: EVENT_ID_FILTER }
+    );
+    await eventsCollection.createIndex({ run: 1, timestamp: 1 });
+    await eventsCollection.createIndex({ player: 1, timestamp: 1 });
+    await eventsCollection.createIndex(
+      { "flagged.flagged_at": -1 },
+      { partialFilterExpression: { flagged: { $exists: true } } }
+    );
+    await eventsCollection.createIndex(
+      { purge_id: 1 },
+      { partialFilterExpression: { purge_id: { $exists: true } } }
+    );
 
     // Scores collection indexes
     const scoresCollection = getScoresCollection(game);
     await scoresCollection.createIndex({ mode: 1 });
     await scoresCollection.createIndex({ score: -1 });
+    // Leaderboards filter on mode (and a time window) and sort by score
+    await scoresCollection.createIndex({
+      mode: 1,
+      score: -1,
+      timestamp: 1,
+      _id: 1,
+    });
+    await scoresCollection.createIndex({
+      mode: 1,
+      score: 1,
+      timestamp: 1,
+      _id: 1,
+    });
+    await scoresCollection.createIndex({ mode: 1, timestamp: -1, score: -1 });
+    await scoresCollection.createIndex({ mode: 1, player: 1, score: -1 });
+    await scoresCollection.createIndex({ player: 1, timestamp: 1 });
+    await scoresCollection.createIndex(
+      { event_id: 1 },
+      { unique: true, partialFilterExpression: EVENT_ID_FILTER }
+    );
+
+    await getRollupsCollection(game).createIndex({ view: 1, refreshed_at: 1 });
+
+    const playersCollection = getPlayersCollection(game);
+    await playersCollection.createIndex(
+      { player: 1, mode: 1 },
+      { unique: true }
+    );
+    await playersCollection.createIndex({ mode: 1, first_seen: 1 });
+
+    const runsCollection = getRunsCollection(game);
+    await runsCollection.createIndex({ player: 1, run: 1 }, { unique: true });
+    await runsCollection.createIndex({ player: 1, started_at: -1 });
+
+    await getDailyEventsCollection(game).createIndex(
+      { day: 1, event_name: 1, mode: 1 },
+      { unique: true }
+    );
 
     console.log(`Indexes created for ${game} collections`);
   } catch (error) {
@@ -122,34 +372,85 @@ export const getDB = () => {
   return db;
 };
 
+// Reload the game registry cache from the games collection
+export const refreshGameRegistry = async () => {
+  const games = await getGamesCollection().find({}).toArray();
+  gameRegistry = new Map(games.map((game) => [game.name, game]));
+};
+
+// Names of all registered games, archived ones included
+export const getRegisteredGames = () => {
+  return [...gameRegistry.keys()];
+};
+
+// Names of all registered games that have not been archived
 export const getSupportedGames = () => {
-  return [...SUPPORTED_GAMES];
+  return [...gameRegistry.values()]
+    .filter((game) => !game.archived)
+    .map((game) => game.name);
 };
 
-export const getEventsCollectionName = (game: string) => {
-  return `${game}_events`;
+export const getGameConfig = (game: string): GameConfig | undefined => {
+  return gameRegistry.get(game);
 };
 
-export const getScoresCollectionName = (game: string) => {
-  return `${game}_scores`;
+export const getGamesCollection = (): Collection<GameConfig> => {
+  return getDB().collection<GameConfig>(GAMES_COLLECTION);
 };
 
-export const getEventsCollection = (game: string): Collection<EventRecord> => {
-  return getDB().collection<GameEvent>(getEventsCollectionName(game));
+export const findGames = async (): Promise<DatabaseResult<GameConfig[]>> => {
+  try {
+    const games = await getGamesCollection()
+      .find({})
+      .sort({ name: 1 })
+      .toArray();
+    return { success: true, data: games };
+  } catch (error) {
+    console.error("Error finding games:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
 };
 
-export const getScoresCollection = (game: string): Collection<ScoreRecord> => {
-  return getDB().collection<ScoreRecord>(getScoresCollectionName(game));
+export const findGame = async (
+  name: string
+): Promise<DatabaseResult<GameConfig | null>> => {
+  try {
+    const game = await getGamesCollection().findOne({ name });
+    return { success: true, data: game };
+  } catch (error) {
+    console.error(`Error finding game ${name}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
 };
 
-export const insertEvent = async (
-  event: GameEvent
-): Promise<DatabaseResult<void>> => {
+// Register a new game and create its collections and indexes
+export const registerGame = async (
+  input: CreateGameInput
+): Promise<DatabaseResult<GameConfig>> => {
   try {
-    await getEventsCollection(event.game).insertOne(event);
-    return { success: true };
+    const now = new Date();
+    const game: GameConfig = {
+      name: input.name,
+      display_name: input.display_name || input.name,
+      modes: input.modes || [],
+      archived: false,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await getGamesCollection().insertOne(game);
+    await initializeGameCollection(game.name);
+    await refreshGameRegistry();
+
+    return { success: true, data: game };
   } catch (error) {
-    console.error(`Error inserting event for ${event.game}:`, error);
+    console.error(`Error registering game ${input.name}:`, error);
     return {
       success: false,
       error: error instanceof Error ? error.message : "Unknown error",
@@ -157,19 +458,55 @@ export const insertEvent = async (
   }
 };
 
-export const insertScore = async (
-  score: ScoreRecord
-): Promise<DatabaseResult<void>> => {
+// Update a game's settings (archiving is an update of the archived flag)
+export const updateGame = async (
+  name: string,
+  changes: UpdateGameInput
+): Promise<DatabaseResult<GameConfig | null>> => {
   try {
-    const scoresCollection = getScoresCollection(score.game);
+    const game = await getGamesCollection().findOneAndUpdate(
+      { name },
+      { $set: { ...changes, updated_at: new Date() } },
+      { returnDocument: "after" }
+    );
+    await refreshGameRegistry();
 
-    // override any old records for this run
-    await scoresCollection.deleteMany({ run: score.run });
-    await scoresCollection.insertOne(score);
+    return { success: true, data: game };
+  } catch (error) {
+    console.error(`Error updating game ${name}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
 
-    return { success: true };
+// Claim the game whose retention purge is due the longest (or the given game
+// when its purge is due), so that several server instances never purge the
+// same game at once
+export const claimRetentionPurge = async (
+  now: Date,
+  intervalMs: number,
+  name?: string
+): Promise<DatabaseResult<GameConfig | null>> => {
+  try {
+    const game = await getGamesCollection().findOneAndUpdate(
+      {
+        ...(name ? { name } : {}),
+        "retention.event_days": { $exists: true },
+        $or: [
+          { retention_purged_at: { $exists: false } },
+          {
+            retention_purged_at: { $lte: new Date(now.getTime() - intervalMs) },
+          },
+        ],
+      },
+      { $set: { retention_purged_at: now } },
+      { sort: { retention_purged_at: 1 }, returnDocument: "after" }
+    );
+    return { success: true, data: game };
   } catch (error) {
-    console.error(`Error inserting score for ${score.game}:`, error);
+    console.error("Error claiming retention purge:", error);
     return {
       success: false,
       error: error instanceof Error ? error.message : "Unknown error",
@@ -177,26 +514,49 @@ export const insertScore = async (
   }
 };
 
-export const findHighScores = async (
+export const getApiKeysCollection = (): Collection<ApiKeyRecord> => {
+  return getDB().collection<ApiKeyRecord>(API_KEYS_COLLECTION);
+};
+
+// Generate a new ingestion key for a game
+export const createApiKey = async (
   game: string,
-  mode: string,
-  limit: number = 100,
-  playerId?: string
-): Promise<DatabaseResult<ScoreRecord[]>> => {
+  label?: string
+): Promise<DatabaseResult<ApiKeyRecord>> => {
   try {
-    const collection = getScoresCollection(game);
-    const query: Record<string, string> = { mode };
-    if (playerId) {
-      query.player = playerId;
+    const apiKey: ApiKeyRecord = {
+      key_id: crypto.randomBytes(6).toString("hex"),
+      game,
+      key: `gak_${crypto.randomBytes(24).toString("hex")}`,
+      created_at: new Date(),
+      revoked_at: null,
+    };
+    if (label) {
+      apiKey.label = label;
     }
-    const scores = await collection
-      .find(query)
-      .sort({ score: -1 })
-      .limit(limit)
+
+    await getApiKeysCollection().insertOne(apiKey);
+    return { success: true, data: apiKey };
+  } catch (error) {
+    console.error(`Error creating API key for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+export const findApiKeys = async (
+  game: string
+): Promise<DatabaseResult<ApiKeyRecord[]>> => {
+  try {
+    const keys = await getApiKeysCollection()
+      .find({ game })
+      .sort({ created_at: -1 })
       .toArray();
-    return { success: true, data: scores };
+    return { success: true, data: keys };
   } catch (error) {
-    console.error(`Error finding scores by mode for ${game}:`, error);
+    console.error(`Error finding API keys for ${game}:`, error);
     return {
       success: false,
       error: error instanceof Error ? error.message : "Unknown error",
@@ -204,175 +564,2435 @@ export const findHighScores = async (
   }
 };
 
-// Safe MongoDB query execution
-const ALLOWED_OPERATIONS = [
-  "$match",
-  "$group",
-  "$sort",
-  "$limit",
-  "$project",
-  "$lookup",
-  "$unwind",
-  "$addFields",
-  "$set",
-  "$count",
-];
+// Look up an API key that has not been revoked
+export const findActiveApiKey = async (
+  key: string
+): Promise<DatabaseResult<ApiKeyRecord | null>> => {
+  try {
+    const apiKey = await getApiKeysCollection().findOne({
+      key,
+      revoked_at: null,
+    });
+    return { success: true, data: apiKey };
+  } catch (error) {
+    console.error("Error finding API key:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
 
-// Filter out dangerous operations like $out, $merge, $geoNear, $text
-const DANGEROUS_OPERATIONS = [
-  "$out",
-  "$merge",
-  "$geoNear",
-  "$text",
-  "$indexStats",
-  "$collStats",
-  "$currentOp",
-  "$listLocalSessions",
-];
+export const revokeApiKey = async (
+  game: string,
+  keyId: string
+): Promise<DatabaseResult<ApiKeyRecord | null>> => {
+  try {
+    const apiKey = await getApiKeysCollection().findOneAndUpdate(
+      { game, key_id: keyId, revoked_at: null },
+      { $set: { revoked_at: new Date() } },
+      { returnDocument: "after" }
+    );
+    return { success: true, data: apiKey };
+  } catch (error) {
+    console.error(`Error revoking API key ${keyId} for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
 
-// Maximum pipeline stages to prevent overly complex queries
-const MAX_PIPELINE_STAGES = 10;
+export const getAccessTokensCollection = (): Collection<AccessToken> => {
+  return getDB().collection<AccessToken>(ACCESS_TOKENS_COLLECTION);
+};
 
-// Maximum limit value to prevent memory issues
-const MAX_LIMIT = 1000;
+export const hashAccessToken = (token: string) => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
 
-// Maximum group size to prevent memory issues
-const MAX_GROUP_SIZE = 10000;
+// Create an access token, returning the record and the token (which is not stored)
+export const createAccessToken = async (
+  name: string,
+  role: AccessRole,
+  games: string[]
+): Promise<DatabaseResult<{ record: AccessToken; token: string }>> => {
+  try {
+    const token = `gat_${crypto.randomBytes(24).toString("hex")}`;
+    const record: AccessToken = {
+      token_id: crypto.randomBytes(6).toString("hex"),
+      token_hash: hashAccessToken(token),
+      name,
+      role,
+      games,
+      created_at: new Date(),
+      revoked_at: null,
+    };
 
-export const sanitizePipeline = (pipeline: Document[]): Document[] => {
-  let sanitizedPipeline: Document[] = [];
-  let hasLimit = false;
-  let hasSort = false;
+    await getAccessTokensCollection().insertOne(record);
+    return { success: true, data: { record, token } };
+  } catch (error) {
+    console.error(`Error creating access token ${name}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
 
-  // Filter and validate each pipeline stage
-  for (let i = 0; i < Math.min(pipeline.length, MAX_PIPELINE_STAGES); i++) {
-    const stage = pipeline[i];
-    const stageKey = Object.keys(stage)[0];
+export const findAccessTokens = async (): Promise<
+  DatabaseResult<AccessToken[]>
+> => {
+  try {
+    const tokens = await getAccessTokensCollection()
+      .find({})
+      .sort({ created_at: -1 })
+      .toArray();
+    return { success: true, data: tokens };
+  } catch (error) {
+    console.error("Error finding access tokens:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
 
-    // Skip dangerous operations
-    if (DANGEROUS_OPERATIONS.includes(stageKey)) {
-      console.warn(
-        `Dangerous operation ${stageKey} filtered out from pipeline`
-      );
-      continue;
-    }
+// Look up an access token that has not been revoked
+export const findActiveAccessToken = async (
+  token: string
+): Promise<DatabaseResult<AccessToken | null>> => {
+  try {
+    const record = await getAccessTokensCollection().findOne({
+      token_hash: hashAccessToken(token),
+      revoked_at: null,
+    });
+    return { success: true, data: record };
+  } catch (error) {
+    console.error("Error finding access token:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
 
-    // Validate allowed operations
-    if (!ALLOWED_OPERATIONS.includes(stageKey)) {
-      console.warn(
-        `Unsupported operation ${stageKey} filtered out from pipeline`
-      );
-      continue;
-    }
+export const revokeAccessToken = async (
+  tokenId: string
+): Promise<DatabaseResult<AccessToken | null>> => {
+  try {
+    const record = await getAccessTokensCollection().findOneAndUpdate(
+      { token_id: tokenId, revoked_at: null },
+      { $set: { revoked_at: new Date() } },
+      { returnDocument: "after" }
+    );
+    return { success: true, data: record };
+  } catch (error) {
+    console.error(`Error revoking access token ${tokenId}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
 
-    // Special handling for $limit stage
-    if (stageKey === "$limit") {
-      const limitValue = (stage as any)[stageKey];
-      if (
-        typeof limitValue === "number" &&
-        limitValue > 0 &&
-        limitValue <= MAX_LIMIT
-      ) {
-        sanitizedPipeline.push(stage);
-        hasLimit = true;
-      } else {
-        // Replace with safe limit
-        sanitizedPipeline.push({
-          $limit: Math.min(limitValue || 100, MAX_LIMIT),
-        } as Document);
-        hasLimit = true;
-      }
-      continue;
-    }
+export const getSavedQueriesCollection = (): Collection<SavedQuery> => {
+  return getDB().collection<SavedQuery>(SAVED_QUERIES_COLLECTION);
+};
 
-    // Special handling for $sort stage
-    if (stageKey === "$sort") {
-      const sortFields = Object.keys((stage as any)[stageKey]);
-      if (sortFields.length <= 5) {
-        // Limit sort fields to prevent memory issues
-        sanitizedPipeline.push(stage);
-        hasSort = true;
-      } else {
-        // Take only first 5 sort fields
-        const limitedSort: Record<string, any> = {};
-        sortFields.slice(0, 5).forEach((field) => {
-          limitedSort[field] = (stage as any)[stageKey][field];
-        });
-        sanitizedPipeline.push({ $sort: limitedSort } as Document);
-        hasSort = true;
-      }
-      continue;
-    }
+export const getSavedQueryVersionsCollection =
+  (): Collection<SavedQueryVersion> => {
+    return getDB().collection<SavedQueryVersion>(
+      SAVED_QUERY_VERSIONS_COLLECTION
+    );
+  };
 
-    // Special handling for $group stage
-    if (stageKey === "$group") {
-      const groupStage = (stage as any)[stageKey];
-      // Add $limit to group results if not present
-      if (!hasLimit) {
-        sanitizedPipeline.push(stage);
-        sanitizedPipeline.push({ $limit: MAX_GROUP_SIZE } as Document);
-        hasLimit = true;
-      } else {
-        sanitizedPipeline.push(stage);
-      }
-      continue;
-    }
+export const findSavedQueries = async (
+  game: string
+): Promise<DatabaseResult<SavedQuery[]>> => {
+  try {
+    const queries = await getSavedQueriesCollection()
+      .find({ game })
+      .sort({ name: 1 })
+      .toArray();
+    return { success: true, data: queries };
+  } catch (error) {
+    console.error(`Error finding saved queries for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
 
-    // Special handling for $lookup stage (limit to prevent cartesian products)
-    if (stageKey === "$lookup") {
-      const lookupStage = (stage as any)[stageKey];
-      // Add pipeline to limit lookup results
-      if (!lookupStage.pipeline) {
-        lookupStage.pipeline = [{ $limit: 1000 }];
-      } else if (Array.isArray(lookupStage.pipeline)) {
-        // Ensure lookup pipeline has a limit
-        const hasLookupLimit = lookupStage.pipeline.some(
-          (s: any) => Object.keys(s)[0] === "$limit"
-        );
-        if (!hasLookupLimit) {
-          lookupStage.pipeline.push({ $limit: 1000 });
-        }
+export const findSavedQuery = async (
+  game: string,
+  name: string
+): Promise<DatabaseResult<SavedQuery | null>> => {
+  try {
+    const query = await getSavedQueriesCollection().findOne({ game, name });
+    return { success: true, data: query };
+  } catch (error) {
+    console.error(`Error finding saved query ${game}/${name}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+export const findSavedQueryVersions = async (
+  game: string,
+  name: string
+): Promise<DatabaseResult<SavedQueryVersion[]>> => {
+  try {
+    const versions = await getSavedQueryVersionsCollection()
+      .find({ game, name })
+      .sort({ version: -1 })
+      .toArray();
+    return { success: true, data: versions };
+  } catch (error) {
+    console.error(`Error finding versions of ${game}/${name}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Save a new version of a saved query (data is null when another version was
+// saved at the same time)
+export const saveQuery = async (
+  game: string,
+  name: string,
+  input: SaveQueryInput,
+  updatedBy: string
+): Promise<DatabaseResult<SavedQuery | null>> => {
+  try {
+    const collection = getSavedQueriesCollection();
+    const existing = await collection.findOne({ game, name });
+    const now = new Date();
+    const query: SavedQuery = {
+      game,
+      name,
+      description: input.description ?? null,
+      pipeline: input.pipeline,
+      params: input.params,
+      version: (existing?.version ?? 0) + 1,
+      updated_by: updatedBy,
+      created_at: existing?.created_at ?? now,
+      updated_at: now,
+    };
+
+    // The unique version index makes concurrent saves of the same version fail
+    const { created_at: _createdAt, ...version } = query;
+    try {
+      await getSavedQueryVersionsCollection().insertOne(version);
+    } catch (error) {
+      if (isDuplicateKeyError(error)) {
+        return { success: true, data: null };
       }
-      sanitizedPipeline.push(stage);
-      continue;
+      throw error;
     }
 
-    // Add all other valid stages
-    sanitizedPipeline.push(stage);
+    // Replace rather than $set, pipelines contain "$" field names
+    await collection.replaceOne({ game, name }, query, { upsert: true });
+    return { success: true, data: query };
+  } catch (error) {
+    console.error(`Error saving query ${game}/${name}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
   }
+};
+
+export const getEventSchemasCollection = (): Collection<EventSchema> => {
+  return getDB().collection<EventSchema>(EVENT_SCHEMAS_COLLECTION);
+};
 
-  // Add automatic $limit if none specified to prevent runaway queries
-  if (!hasLimit) {
-    sanitizedPipeline.push({ $limit: 1000 } as Document);
+export const findEventSchemas = async (
+  game: string
+): Promise<DatabaseResult<EventSchema[]>> => {
+  try {
+    const schemas = await getEventSchemasCollection()
+      .find({ game })
+      .sort({ event_name: 1 })
+      .toArray();
+    return { success: true, data: schemas };
+  } catch (error) {
+    console.error(`Error finding event schemas for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
   }
+};
 
-  // Add $allowDiskUse: false to prevent disk usage for large operations
-  if (hasSort && sanitizedPipeline.length > 0) {
-    // MongoDB will automatically use disk if sort exceeds memory, but we can warn
-    console.log(
-      "Sort operation detected - ensure adequate memory for operation"
+export const saveEventSchema = async (
+  game: string,
+  eventName: string,
+  input: SaveEventSchemaInput,
+  updatedBy: string
+): Promise<DatabaseResult<EventSchema>> => {
+  try {
+    const now = new Date();
+    const schema = await getEventSchemasCollection().findOneAndUpdate(
+      { game, event_name: eventName },
+      {
+        $set: {
+          schema: input.schema,
+          mode: input.mode,
+          description: input.description ?? null,
+          updated_by: updatedBy,
+          updated_at: now,
+        },
+        $setOnInsert: { created_at: now },
+      },
+      { upsert: true, returnDocument: "after" }
     );
+    return { success: true, data: schema! };
+  } catch (error) {
+    console.error(`Error saving event schema ${game}/${eventName}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
   }
-
-  return sanitizedPipeline;
 };
 
-// Helper function to execute a sanitized aggregation pipeline
-export const executeAnalyticsQuery = async (
+// Delete an event schema (data is false when there was none)
+export const deleteEventSchema = async (
   game: string,
-  pipeline: Document[]
-): Promise<DatabaseResult<Document[]>> => {
+  eventName: string
+): Promise<DatabaseResult<boolean>> => {
   try {
-    // Sanitize the pipeline before execution
-    const sanitizedPipeline = sanitizePipeline(pipeline);
-
-    // Execute the sanitized pipeline
-    const results = await getEventsCollection(game)
-      .aggregate(sanitizedPipeline)
-      .toArray();
-
-    return { success: true, data: results };
+    const result = await getEventSchemasCollection().deleteOne({
+      game,
+      event_name: eventName,
+    });
+    return { success: true, data: result.deletedCount > 0 };
   } catch (error) {
+    console.error(`Error deleting event schema ${game}/${eventName}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Event names recorded for a game since a point in time
+export const findRecentEventNames = async (
+  game: string,
+  since: Date
+): Promise<DatabaseResult<string[]>> => {
+  try {
+    const names = await getEventsCollection(game).distinct("event_name", {
+      timestamp: { $gte: since },
+    });
+    return { success: true, data: names };
+  } catch (error) {
+    console.error(`Error finding event names for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+export const getMaterializedViewsCollection =
+  (): Collection<MaterializedView> => {
+    return getDB().collection<MaterializedView>(MATERIALIZED_VIEWS_COLLECTION);
+  };
+
+export const findMaterializedViews = async (
+  game: string
+): Promise<DatabaseResult<MaterializedView[]>> => {
+  try {
+    const views = await getMaterializedViewsCollection()
+      .find({ game })
+      .sort({ name: 1 })
+      .toArray();
+    return { success: true, data: views };
+  } catch (error) {
+    console.error(`Error finding materialized views for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+export const findMaterializedView = async (
+  game: string,
+  name: string
+): Promise<DatabaseResult<MaterializedView | null>> => {
+  try {
+    const view = await getMaterializedViewsCollection().findOne({
+      game,
+      name,
+    });
+    return { success: true, data: view };
+  } catch (error) {
+    console.error(`Error finding materialized view ${game}/${name}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Create or replace a materialized view, due for a refresh right away
+export const saveMaterializedView = async (
+  game: string,
+  name: string,
+  pipeline: Document[],
+  intervalMs: number,
+  updatedBy: string
+): Promise<DatabaseResult<MaterializedView>> => {
+  try {
+    const collection = getMaterializedViewsCollection();
+    const existing = await collection.findOne({ game, name });
+    const now = new Date();
+    const view: MaterializedView = {
+      game,
+      name,
+      pipeline,
+      interval_ms: intervalMs,
+      next_run_at: now,
+      last_run_at: existing?.last_run_at ?? null,
+      last_error: null,
+      row_count: existing?.row_count ?? 0,
+      updated_by: updatedBy,
+      created_at: existing?.created_at ?? now,
+      updated_at: now,
+    };
+
+    // Replace rather than $set, pipelines contain "$" field names
+    await collection.replaceOne({ game, name }, view, { upsert: true });
+    return { success: true, data: view };
+  } catch (error) {
+    console.error(`Error saving materialized view ${game}/${name}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Delete a materialized view and its rollup rows (data is false when missing)
+export const deleteMaterializedView = async (
+  game: string,
+  name: string
+): Promise<DatabaseResult<boolean>> => {
+  try {
+    const result = await getMaterializedViewsCollection().deleteOne({
+      game,
+      name,
+    });
+    await getRollupsCollection(game).deleteMany({ view: name });
+    return { success: true, data: result.deletedCount > 0 };
+  } catch (error) {
+    console.error(`Error deleting materialized view ${game}/${name}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Claim the view most overdue for a refresh by moving its next run forward, so
+// other instances skip it (data is null when no view is due)
+export const claimDueMaterializedView = async (
+  now: Date
+): Promise<DatabaseResult<MaterializedView | null>> => {
+  try {
+    const view = await getMaterializedViewsCollection().findOneAndUpdate(
+      { next_run_at: { $lte: now } },
+      [{ $set: { next_run_at: { $add: [now, "$interval_ms"] } } }],
+      { sort: { next_run_at: 1 }, returnDocument: "after" }
+    );
+    return { success: true, data: view };
+  } catch (error) {
+    console.error("Error claiming materialized view:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Replace the rollup rows of a view with the results of a refresh. Readers
+// take the rows of the view's last_run_at, so the new rows are only pointed to
+// once all are written, and the previous refresh is kept for readers that
+// looked up the view just before.
+export const writeRollup = async (
+  view: MaterializedView,
+  results: Document[],
+  refreshedAt: Date
+): Promise<DatabaseResult<void>> => {
+  try {
+    const collection = getRollupsCollection(view.game);
+    if (results.length > 0) {
+      await collection.insertMany(
+        results.map((data) => ({
+          view: view.name,
+          refreshed_at: refreshedAt,
+          data,
+        }))
+      );
+    }
+
+    await getMaterializedViewsCollection().updateOne(
+      { game: view.game, name: view.name },
+      {
+        $set: {
+          last_run_at: refreshedAt,
+          last_error: null,
+          row_count: results.length,
+        },
+      }
+    );
+
+    const keptRefreshes = [refreshedAt];
+    if (view.last_run_at) {
+      keptRefreshes.push(view.last_run_at);
+    }
+    await collection.deleteMany({
+      view: view.name,
+      refreshed_at: { $nin: keptRefreshes },
+    });
+    return { success: true };
+  } catch (error) {
+    console.error(`Error writing rollup ${view.game}/${view.name}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+export const recordMaterializedViewError = async (
+  view: MaterializedView,
+  message: string
+): Promise<DatabaseResult<void>> => {
+  try {
+    await getMaterializedViewsCollection().updateOne(
+      { game: view.game, name: view.name },
+      { $set: { last_error: message } }
+    );
+    return { success: true };
+  } catch (error) {
+    console.error(`Error recording failure of ${view.name}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Rows written by one refresh of a view
+export const findRollupRows = async (
+  game: string,
+  view: string,
+  refreshedAt: Date
+): Promise<DatabaseResult<RollupRow[]>> => {
+  try {
+    const rows = await getRollupsCollection(game)
+      .find({ view, refreshed_at: refreshedAt })
+      .sort({ _id: 1 })
+      .toArray();
+    return { success: true, data: rows };
+  } catch (error) {
+    console.error(`Error finding rollup rows ${game}/${view}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+export const getEventsCollectionName = (game: string) => {
+  return `${game}_events`;
+};
+
+export const getScoresCollectionName = (game: string) => {
+  return `${game}_scores`;
+};
+
+export const getRollupsCollectionName = (game: string) => {
+  return `${game}_rollups`;
+};
+
+export const getRollupsCollection = (game: string): Collection<RollupRow> => {
+  return getDB().collection<RollupRow>(getRollupsCollectionName(game));
+};
+
+export const getDailyEventsCollectionName = (game: string) => {
+  return `${game}_daily_events`;
+};
+
+export const getDailyEventsCollection = (
+  game: string
+): Collection<DailyEventCount> => {
+  return getDB().collection<DailyEventCount>(
+    getDailyEventsCollectionName(game)
+  );
+};
+
+export const getRunsCollectionName = (game: string) => {
+  return `${game}_runs`;
+};
+
+export const getRunsCollection = (game: string): Collection<RunSummary> => {
+  return getDB().collection<RunSummary>(getRunsCollectionName(game));
+};
+
+export const getPlayersCollectionName = (game: string) => {
+  return `${game}_players`;
+};
+
+export const getPlayersCollection = (
+  game: string
+): Collection<PlayerSummary> => {
+  return getDB().collection<PlayerSummary>(getPlayersCollectionName(game));
+};
+
+export const getEventsCollection = (game: string): Collection<EventRecord> => {
+  return getDB().collection<GameEvent>(getEventsCollectionName(game));
+};
+
+export const getScoresCollection = (game: string): Collection<ScoreRecord> => {
+  return getDB().collection<ScoreRecord>(getScoresCollectionName(game));
+};
+
+export const insertEvent = async (
+  event: EventRecord
+): Promise<DatabaseResult<InsertResult>> => {
+  try {
+    await getEventsCollection(event.game).insertOne(event);
+    return { success: true, data: { duplicate: false } };
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return { success: true, data: { duplicate: true } };
+    }
+
+    console.error(`Error inserting event for ${event.game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Insert several events for one game, continuing past individual failures
+export const insertEvents = async (
+  game: string,
+  events: EventRecord[]
+): Promise<DatabaseResult<BulkInsertResult>> => {
+  try {
+    await getEventsCollection(game).insertMany(events, { ordered: false });
+    return { success: true, data: { failed: [], duplicates: [] } };
+  } catch (error) {
+    if (error instanceof MongoBulkWriteError) {
+      const writeErrors = Array.isArray(error.writeErrors)
+        ? error.writeErrors
+        : [error.writeErrors];
+      const result: BulkInsertResult = { failed: [], duplicates: [] };
+      for (const writeError of writeErrors) {
+        if (writeError.code === DUPLICATE_KEY_ERROR) {
+          result.duplicates.push(writeError.index);
+        } else {
+          result.failed.push({
+            index: writeError.index,
+            error: writeError.errmsg || "Write failed",
+          });
+        }
+      }
+      return { success: true, data: result };
+    }
+
+    console.error(`Error inserting events for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+export const insertScore = async (
+  score: ScoreRecord
+): Promise<DatabaseResult<InsertResult>> => {
+  try {
+    const scoresCollection = getScoresCollection(score.game);
+
+    // a replayed event must not replace the run's score a second time
+    if (
+      score.event_id &&
+      (await scoresCollection.findOne({ event_id: score.event_id }))
+    ) {
+      return { success: true, data: { duplicate: true } };
+    }
+
+    // override any old records for this run
+    await scoresCollection.deleteMany({ run: score.run });
+    await scoresCollection.insertOne(score);
+
+    return { success: true, data: { duplicate: false } };
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return { success: true, data: { duplicate: true } };
+    }
+
+    console.error(`Error inserting score for ${score.game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Upsert of a player's summary (overall when mode is null) for one more event,
+// counting one more run when the event started a run summary. Event values are
+// wrapped in $literal so they are never read as field paths.
+const getPlayerSummaryUpdate = (
+  event: EventRecord,
+  mode: string | null,
+  startedRun: boolean
+): AnyBulkWriteOperation<PlayerSummary> => {
+  const run = event.run;
+  return {
+    updateOne: {
+      filter: { player: event.player, mode },
+      update: [
+        {
+          $set: {
+            first_seen: {
+              $min: [
+                { $ifNull: ["$first_seen", event.timestamp] },
+                event.timestamp,
+              ],
+            },
+            last_seen: {
+              $max: [
+                { $ifNull: ["$last_seen", event.timestamp] },
+                event.timestamp,
+              ],
+            },
+            event_count: { $add: [{ $ifNull: ["$event_count", 0] }, 1] },
+            run_count: {
+              $add: [{ $ifNull: ["$run_count", 0] }, startedRun ? 1 : 0],
+            },
+            last_run:
+              run === undefined
+                ? { $ifNull: ["$last_run", null] }
+                : { $literal: run },
+          },
+        },
+      ],
+      upsert: true,
+    },
+  };
+};
+
+// Fold newly recorded events into their players' summaries. Runs are counted
+// for the events that started a run summary (see updateRunSummaries), in the
+// mode of that first event like the run itself.
+export const updatePlayerSummaries = async (
+  game: string,
+  events: EventRecord[],
+  runStarts: EventRecord[]
+): Promise<DatabaseResult<void>> => {
+  try {
+    const operations = events.flatMap((event) => {
+      const startedRun = runStarts.includes(event);
+      return [
+        getPlayerSummaryUpdate(event, null, startedRun),
+        ...(event.mode
+          ? [getPlayerSummaryUpdate(event, event.mode, startedRun)]
+          : []),
+      ];
+    });
+    if (operations.length > 0) {
+      await getPlayersCollection(game).bulkWrite(operations);
+    }
+    return { success: true };
+  } catch (error) {
+    console.error(`Error updating player summaries for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Player summaries computed from every event, grouped by player (and mode), with
+// the runs counted from the run summaries the same way events count them
+const getPlayerSummaryPipeline = (
+  game: string,
+  byMode: boolean
+): Document[] => [
+  ...(byMode ? [{ $match: { mode: { $type: "string" } } }] : []),
+  { $sort: { timestamp: 1 } },
+  {
+    $group: {
+      _id: { player: "$player", mode: byMode ? "$mode" : null },
+      first_seen: { $min: "$timestamp" },
+      last_seen: { $max: "$timestamp" },
+      event_count: { $sum: 1 },
+      last_run: { $last: "$run" },
+    },
+  },
+  {
+    $lookup: {
+      from: getRunsCollectionName(game),
+      let: { player: "$_id.player", mode: "$_id.mode" },
+      pipeline: [
+        {
+          $match: {
+            $expr: {
+              $and: [
+                { $eq: ["$player", "$$player"] },
+                ...(byMode ? [{ $eq: ["$mode", "$$mode"] }] : []),
+              ],
+            },
+          },
+        },
+        { $count: "count" },
+      ],
+      as: "runs",
+    },
+  },
+  {
+    $project: {
+      _id: 0,
+      player: "$_id.player",
+      mode: "$_id.mode",
+      first_seen: 1,
+      last_seen: 1,
+      event_count: 1,
+      run_count: { $ifNull: [{ $arrayElemAt: ["$runs.count", 0] }, 0] },
+      last_run: { $ifNull: ["$last_run", null] },
+    },
+  },
+];
+
+// Merge a recomputed summary into the stored one. Events recorded while the
+// rebuild runs, or purged by retention since they were counted, are covered by
+// keeping the earliest first_seen, the latest last_seen and the larger counts.
+const getRebuiltPlayerSummaryUpdate = (
+  summary: PlayerSummary
+): AnyBulkWriteOperation<PlayerSummary> => ({
+  updateOne: {
+    filter: { player: summary.player, mode: summary.mode },
+    update: [
+      {
+        $set: {
+          first_seen: {
+            $min: [
+              { $ifNull: ["$first_seen", summary.first_seen] },
+              summary.first_seen,
+            ],
+          },
+          last_seen: {
+            $max: [
+              { $ifNull: ["$last_seen", summary.last_seen] },
+              summary.last_seen,
+            ],
+          },
+          event_count: {
+            $max: [{ $ifNull: ["$event_count", 0] }, summary.event_count],
+          },
+          run_count: {
+            $max: [{ $ifNull: ["$run_count", 0] }, summary.run_count],
+          },
+          last_run: {
+            $cond: [
+              {
+                $gt: [
+                  { $ifNull: ["$last_seen", summary.last_seen] },
+                  summary.last_seen,
+                ],
+              },
+              "$last_run",
+              { $literal: summary.last_run },
+            ],
+          },
+        },
+      },
+    ],
+    upsert: true,
+  },
+});
+
+// Recompute every player summary of a game from its events (for events stored
+// before summaries were kept), returning how many summaries were written
+export const rebuildPlayerSummaries = async (
+  game: string
+): Promise<DatabaseResult<number>> => {
+  try {
+    const playersCollection = getPlayersCollection(game);
+    let written = 0;
+
+    for (const byMode of [false, true]) {
+      const cursor = getEventsCollection(game).aggregate<PlayerSummary>(
+        getPlayerSummaryPipeline(game, byMode),
+        { allowDiskUse: true }
+      );
+
+      let batch: AnyBulkWriteOperation<PlayerSummary>[] = [];
+      for await (const summary of cursor) {
+        batch.push(getRebuiltPlayerSummaryUpdate(summary));
+        if (batch.length >= REBUILD_BATCH_SIZE) {
+          await playersCollection.bulkWrite(batch);
+          written += batch.length;
+          batch = [];
+        }
+      }
+      if (batch.length > 0) {
+        await playersCollection.bulkWrite(batch);
+        written += batch.length;
+      }
+    }
+
+    return { success: true, data: written };
+  } catch (error) {
+    console.error(`Error rebuilding player summaries for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Players first seen in a range, each with the days (in a time zone) they were
+// active on from then until a cutoff (the caller iterates the cursor and handles
+// its errors)
+export const findPlayerActivity = (
+  game: string,
+  query: PlayerActivityQuery,
+  maxTimeMS: number
+) => {
+  const { mode, from, to, activeUntil, timezone } = query;
+  return getPlayersCollection(game).aggregate<PlayerActivity>(
+    [
+      { $match: { mode, first_seen: { $gte: from, $lt: to } } },
+      {
+        $lookup: {
+          from: getEventsCollectionName(game),
+          let: { player: "$player", mode: "$mode", first_seen: "$first_seen" },
+          pipeline: [
+            {
+              $match: {
+                $expr: {
+                  $and: [
+                    { $eq: ["$player", "$$player"] },
+                    { $gte: ["$timestamp", "$$first_seen"] },
+                    { $lt: ["$timestamp", activeUntil] },
+                    {
+                      $or: [
+                        { $eq: ["$$mode", null] },
+                        { $eq: ["$mode", "$$mode"] },
+                      ],
+                    },
+                  ],
+                },
+              },
+            },
+            {
+              $group: {
+                _id: {
+                  $dateTrunc: { date: "$timestamp", unit: "day", timezone },
+                },
+              },
+            },
+          ],
+          as: "active",
+        },
+      },
+      {
+        $project: {
+          _id: 0,
+          mode: 1,
+          first_seen: 1,
+          active_days: "$active._id",
+        },
+      },
+    ],
+    { allowDiskUse: true, maxTimeMS }
+  );
+};
+
+// Upsert of a run's summary for one more of its events. The last event name
+// only changes for events at or after the run's latest one (events can arrive
+// out of order).
+const getRunSummaryUpdate = (
+  event: EventRecord & { run: string }
+): AnyBulkWriteOperation<RunSummary> => {
+  const score = event.data?.score;
+  const isScore =
+    event.event_name === "high_score" && typeof score === "number";
+  return {
+    updateOne: {
+      // Run ids come from clients, so each player's runs are kept apart
+      filter: { player: event.player, run: event.run },
+      update: [
+        {
+          $set: {
+            mode: { $ifNull: ["$mode", { $literal: event.mode ?? null }] },
+            started_at: {
+              $min: [
+                { $ifNull: ["$started_at", event.timestamp] },
+                event.timestamp,
+              ],
+            },
+            ended_at: {
+              $max: [
+                { $ifNull: ["$ended_at", event.timestamp] },
+                event.timestamp,
+              ],
+            },
+            event_count: { $add: [{ $ifNull: ["$event_count", 0] }, 1] },
+            last_event_name: {
+              $cond: [
+                {
+                  $gte: [
+                    event.timestamp,
+                    { $ifNull: ["$ended_at", event.timestamp] },
+                  ],
+                },
+                { $literal: event.event_name },
+                "$last_event_name",
+              ],
+            },
+            final_score: isScore
+              ? { $literal: score }
+              : { $ifNull: ["$final_score", null] },
+          },
+        },
+      ],
+      upsert: true,
+    },
+  };
+};
+
+// Fold newly recorded events into the summaries of their runs, returning the
+// events that started a new run summary
+export const updateRunSummaries = async (
+  game: string,
+  events: EventRecord[]
+): Promise<DatabaseResult<EventRecord[]>> => {
+  try {
+    const runEvents = events.filter(
+      (event): event is EventRecord & { run: string } => !!event.run
+    );
+    if (runEvents.length === 0) {
+      return { success: true, data: [] };
+    }
+    const result = await getRunsCollection(game).bulkWrite(
+      runEvents.map(getRunSummaryUpdate)
+    );
+    return {
+      success: true,
+      data: Object.keys(result.upsertedIds).map(
+        (index) => runEvents[Number(index)]
+      ),
+    };
+  } catch (error) {
+    console.error(`Error updating run summaries for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// A player's runs, most recently started first
+export const findPlayerRuns = async (
+  game: string,
+  player: string,
+  limit: number,
+  before?: Date
+): Promise<DatabaseResult<RunSummary[]>> => {
+  try {
+    const filter: Filter<RunSummary> = { player };
+    if (before) {
+      filter.started_at = { $lt: before };
+    }
+    const runs = await getRunsCollection(game)
+      .find(filter)
+      .sort({ started_at: -1 })
+      .limit(limit)
+      .toArray();
+    return { success: true, data: runs };
+  } catch (error) {
+    console.error(`Error finding runs of ${player} in ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+export const findRun = async (
+  game: string,
+  player: string,
+  run: string
+): Promise<DatabaseResult<RunSummary | null>> => {
+  try {
+    const summary = await getRunsCollection(game).findOne({ player, run });
+    return { success: true, data: summary };
+  } catch (error) {
+    console.error(`Error finding run ${run} in ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// The events of a player's run in the order they happened
+export const findRunEvents = async (
+  game: string,
+  player: string,
+  run: string,
+  limit: number
+): Promise<DatabaseResult<EventRecord[]>> => {
+  try {
+    const events = await getEventsCollection(game)
+      .find({ player, run })
+      .sort({ timestamp: 1, _id: 1 })
+      .limit(limit)
+      .toArray();
+    return { success: true, data: events };
+  } catch (error) {
+    console.error(`Error finding events of run ${run} in ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Value of a metric for each minute, hour or day that has events (buckets
+// without events are left out)
+export const findEventTimeseries = async (
+  game: string,
+  query: TimeseriesQuery & { to: Date },
+  maxTimeMS: number
+): Promise<DatabaseResult<TimeseriesPoint[]>> => {
+  try {
+    // The range comes first so the timestamp index is used
+    const filter: Filter<EventRecord> = {
+      timestamp: { $gte: query.from, $lt: query.to },
+    };
+    if (query.event_name) {
+      filter.event_name = query.event_name;
+    }
+    if (query.mode) {
+      filter.mode = query.mode;
+    }
+
+    const bucket = {
+      $dateTrunc: {
+        date: "$timestamp",
+        unit: query.interval,
+        timezone: query.timezone,
+      },
+    };
+    const uniqueField =
+      query.metric === "unique_players"
+        ? "$player"
+        : query.metric === "unique_runs"
+          ? "$run"
+          : undefined;
+
+    const grouping: Document[] = uniqueField
+      ? [
+          ...(query.metric === "unique_runs"
+            ? [{ $match: { run: { $exists: true } } }]
+            : []),
+          { $group: { _id: { bucket, key: uniqueField } } },
+          { $group: { _id: "$_id.bucket", value: { $sum: 1 } } },
+        ]
+      : [
+          {
+            $group: {
+              _id: bucket,
+              value:
+                query.metric === "count"
+                  ? { $sum: 1 }
+                  : { [`$${query.metric}`]: `$data.${query.field}` },
+            },
+          },
+        ];
+
+    const points = await getEventsCollection(game)
+      .aggregate<{ _id: Date; value: number | null }>(
+        [{ $match: filter }, ...grouping, { $sort: { _id: 1 } }],
+        { maxTimeMS, allowDiskUse: true }
+      )
+      .toArray();
+    return {
+      success: true,
+      data: points.map((point) => ({
+        bucket: point._id,
+        value: point.value ?? 0,
+      })),
+    };
+  } catch (error) {
+    if (isMaxTimeExpiredError(error)) {
+      return { success: false, error: QUERY_TIMEOUT_ERROR };
+    }
+
+    console.error(`Error computing timeseries for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Cursor over the events of a game, for reports that stream through many events
+// (the caller iterates it and handles its errors)
+export const findEventsCursor = (
+  game: string,
+  filter: Filter<EventRecord>,
+  options: FindOptions
+): FindCursor<EventRecord> => {
+  return getEventsCollection(game).find(filter, options);
+};
+
+// Cursor over the scores of a game (the caller iterates it and handles its errors)
+export const findScoresCursor = (
+  game: string,
+  filter: Filter<ScoreRecord>,
+  options: FindOptions
+): FindCursor<ScoreRecord> => {
+  return getScoresCollection(game).find(filter, options);
+};
+
+// First event time and distinct event names recorded for a player's run up to
+// a point in time
+export const findRunActivity = async (
+  game: string,
+  player: string,
+  run: string,
+  before: Date,
+  excludeEventId?: ObjectId
+): Promise<DatabaseResult<RunActivity>> => {
+  try {
+    const match: Document = { player, run, timestamp: { $lte: before } };
+    if (excludeEventId) {
+      match._id = { $ne: excludeEventId };
+    }
+    const [activity] = await getEventsCollection(game)
+      .aggregate<RunActivity>([
+        { $match: match },
+        {
+          $group: {
+            _id: null,
+            first_event_at: { $min: "$timestamp" },
+            event_names: { $addToSet: "$event_name" },
+          },
+        },
+      ])
+      .toArray();
+    return { success: true, data: activity || { event_names: [] } };
+  } catch (error) {
+    console.error(`Error finding activity for run ${run} of ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Raw events older than the cutoff, except the event names kept forever
+const getExpiredEventsFilter = (
+  cutoff: Date,
+  keepEvents: string[]
+): Filter<EventRecord> => ({
+  timestamp: { $lt: cutoff },
+  event_name: { $nin: keepEvents },
+});
+
+// Number of events the retention policy would purge, per event name
+export const countExpiredEvents = async (
+  game: string,
+  cutoff: Date,
+  keepEvents: string[]
+): Promise<DatabaseResult<{ event_name: string; count: number }[]>> => {
+  try {
+    const counts = await getEventsCollection(game)
+      .aggregate<{ event_name: string; count: number }>([
+        { $match: getExpiredEventsFilter(cutoff, keepEvents) },
+        { $group: { _id: "$event_name", count: { $sum: 1 } } },
+        { $sort: { count: -1, _id: 1 } },
+        { $project: { _id: 0, event_name: "$_id", count: 1 } },
+      ])
+      .toArray();
+    return { success: true, data: counts };
+  } catch (error) {
+    console.error(`Error counting expired events for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Pick the events the retention policy expires for a purge, so that the rollup
+// and the delete work on the same events even while old events keep arriving
+// (returns the number picked)
+export const markExpiredEvents = async (
+  game: string,
+  cutoff: Date,
+  keepEvents: string[],
+  purgeId: string
+): Promise<DatabaseResult<number>> => {
+  try {
+    const result = await getEventsCollection(game).updateMany(
+      {
+        ...getExpiredEventsFilter(cutoff, keepEvents),
+        purge_id: { $exists: false },
+      },
+      { $set: { purge_id: purgeId } }
+    );
+    return { success: true, data: result.modifiedCount };
+  } catch (error) {
+    console.error(`Error marking expired events for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Events picked for a purge and not counted in the daily counts yet
+const NOT_ROLLED_UP_FILTER: Filter<EventRecord> = {
+  purge_id: { $exists: true },
+  rolled_up: { $ne: true },
+};
+
+// Add the events picked for a purge to the daily counts (returns the number of
+// daily counts updated). A count remembers the purges added to it, so events of
+// a purge that failed after its rollup are not counted again when retried.
+export const rollupExpiredEvents = async (
+  game: string
+): Promise<DatabaseResult<number>> => {
+  try {
+    const counts = await getEventsCollection(game)
+      .aggregate<DailyEventCount & { purge_id: string }>([
+        { $match: NOT_ROLLED_UP_FILTER },
+        {
+          $group: {
+            _id: {
+              purge_id: "$purge_id",
+              day: { $dateTrunc: { date: "$timestamp", unit: "day" } },
+              event_name: "$event_name",
+              mode: { $ifNull: ["$mode", null] },
+            },
+            count: { $sum: 1 },
+          },
+        },
+        {
+          $project: {
+            _id: 0,
+            purge_id: "$_id.purge_id",
+            day: "$_id.day",
+            event_name: "$_id.event_name",
+            mode: "$_id.mode",
+            count: 1,
+          },
+        },
+      ])
+      .toArray();
+
+    const operations: AnyBulkWriteOperation<DailyEventCount>[] = counts.map(
+      ({ purge_id, day, event_name, mode, count }) => ({
+        updateOne: {
+          filter: { day, event_name, mode },
+          update: [
+            {
+              $set: {
+                count: {
+                  $cond: [
+                    {
+                      $in: [
+                        { $literal: purge_id },
+                        { $ifNull: ["$purge_ids", []] },
+                      ],
+                    },
+                    "$count",
+                    { $add: [{ $ifNull: ["$count", 0] }, count] },
+                  ],
+                },
+                purge_ids: {
+                  $setUnion: [
+                    { $ifNull: ["$purge_ids", []] },
+                    { $literal: [purge_id] },
+                  ],
+                },
+              },
+            },
+          ],
+          upsert: true,
+        },
+      })
+    );
+    for (let i = 0; i < operations.length; i += REBUILD_BATCH_SIZE) {
+      await getDailyEventsCollection(game).bulkWrite(
+        operations.slice(i, i + REBUILD_BATCH_SIZE)
+      );
+    }
+
+    const purgeIds = [...new Set(counts.map(({ purge_id }) => purge_id))];
+    await getEventsCollection(game).updateMany(
+      { ...NOT_ROLLED_UP_FILTER, purge_id: { $in: purgeIds } },
+      { $set: { rolled_up: true } }
+    );
+
+    return { success: true, data: counts.length };
+  } catch (error) {
+    console.error(`Error rolling up expired events for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Delete the events picked for a purge, once they are counted when the policy
+// rolls them up (returns the number deleted)
+export const purgeExpiredEvents = async (
+  game: string,
+  rollup: boolean
+): Promise<DatabaseResult<number>> => {
+  try {
+    const result = await getEventsCollection(game).deleteMany({
+      purge_id: { $exists: true },
+      ...(rollup ? { rolled_up: true } : {}),
+    });
+    return { success: true, data: result.deletedCount };
+  } catch (error) {
+    console.error(`Error purging expired events for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+export const flagEvent = async (
+  game: string,
+  eventId: ObjectId,
+  flag: ScoreFlag
+): Promise<DatabaseResult<void>> => {
+  try {
+    await getEventsCollection(game).updateOne(
+      { _id: eventId },
+      { $set: { flagged: flag } }
+    );
+    return { success: true };
+  } catch (error) {
+    console.error(`Error flagging event ${eventId} for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Flagged high score events, newest first (unreviewed only unless includeReviewed)
+export const findFlaggedEvents = async (
+  game: string,
+  mode?: string,
+  includeReviewed: boolean = false,
+  limit: number = 100
+): Promise<DatabaseResult<EventRecord[]>> => {
+  try {
+    const query: Document = { flagged: { $exists: true } };
+    if (mode) {
+      query.mode = mode;
+    }
+    if (!includeReviewed) {
+      query["flagged.review"] = { $exists: false };
+    }
+    const events = await getEventsCollection(game)
+      .find(query)
+      .sort({ "flagged.flagged_at": -1 })
+      .limit(limit)
+      .toArray();
+    return { success: true, data: events };
+  } catch (error) {
+    console.error(`Error finding flagged events for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+export const reviewFlaggedEvent = async (
+  game: string,
+  eventId: ObjectId,
+  review: "approved" | "rejected"
+): Promise<DatabaseResult<EventRecord | null>> => {
+  try {
+    const event = await getEventsCollection(game).findOneAndUpdate(
+      { _id: eventId, flagged: { $exists: true } },
+      { $set: { "flagged.review": review, "flagged.reviewed_at": new Date() } },
+      { returnDocument: "after" }
+    );
+    return { success: true, data: event };
+  } catch (error) {
+    console.error(
+      `Error reviewing flagged event ${eventId} for ${game}:`,
+      error
+    );
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Leaderboard order: best score first, earlier scores (then older records) win ties
+const getLeaderboardSort = (order: LeaderboardOrder = "desc") => {
+  return { score: order === "asc" ? 1 : -1, timestamp: 1, _id: 1 } as const;
+};
+
+// Scores that come after the cursor entry in leaderboard order
+const getCursorFilter = (
+  cursor: LeaderboardCursor,
+  order: LeaderboardOrder = "desc"
+): Document => {
+  return {
+    $or: [
+      { score: { [order === "asc" ? "$gt" : "$lt"]: cursor.score } },
+      { score: cursor.score, timestamp: { $gt: cursor.timestamp } },
+      {
+        score: cursor.score,
+        timestamp: cursor.timestamp,
+        _id: { $gt: cursor.id },
+      },
+    ],
+  };
+};
+
+// Scores that come before the cursor entry in leaderboard order
+const getPrecedingFilter = (
+  cursor: LeaderboardCursor,
+  order: LeaderboardOrder = "desc"
+): Document => {
+  return {
+    $or: [
+      { score: { [order === "asc" ? "$lt" : "$gt"]: cursor.score } },
+      { score: cursor.score, timestamp: { $lt: cursor.timestamp } },
+      {
+        score: cursor.score,
+        timestamp: cursor.timestamp,
+        _id: { $lt: cursor.id },
+      },
+    ],
+  };
+};
+
+// Query matching every score on a mode's board (hidden scores and banned
+// players are never on the board)
+const getBoardQuery = async (
+  game: string,
+  mode: string,
+  options: HighScoreOptions
+) => {
+  const query: Document = { mode, hidden: { $ne: true } };
+  const bannedPlayers = await getPlayerBansCollection().distinct("player", {
+    game,
+  });
+  if (options.player || bannedPlayers.length > 0) {
+    query.player = {
+      ...(options.player && { $eq: options.player }),
+      ...(bannedPlayers.length > 0 && { $nin: bannedPlayers }),
+    };
+  }
+  if (options.since) {
+    query.timestamp = { $gte: options.since };
+  }
+  return query;
+};
+
+// Read scores matching a query in the given order, optionally keeping only each
+// player's best score. entryFilter is applied to the entries that make the board
+// (after picking each player's best score when perPlayer is set).
+const findLeaderboardEntries = async (
+  game: string,
+  query: Document,
+  sort: Document,
+  limit: number,
+  options: HighScoreOptions,
+  entryFilter: Document = {}
+) => {
+  const collection = getScoresCollection(game);
+  if (!options.perPlayer) {
+    return collection
+      .find({ ...query, ...entryFilter })
+      .sort(sort)
+      .limit(limit)
+      .toArray();
+  }
+
+  return collection
+    .aggregate<ScoreRecord>([
+      { $match: query },
+      { $sort: getLeaderboardSort(options.order) },
+      { $group: { _id: "$player", entry: { $first: "$$ROOT" } } },
+      { $replaceRoot: { newRoot: "$entry" } },
+      { $match: entryFilter },
+      { $sort: sort },
+      { $limit: limit },
+    ])
+    .toArray();
+};
+
+// Count the leaderboard entries (or players, when perPlayer is set) matching a query
+const countLeaderboardEntries = async (
+  game: string,
+  query: Document,
+  perPlayer: boolean = false
+) => {
+  const collection = getScoresCollection(game);
+  if (!perPlayer) {
+    return collection.countDocuments(query);
+  }
+
+  const [result] = await collection
+    .aggregate<{ count: number }>([
+      { $match: query },
+      { $group: { _id: "$player" } },
+      { $count: "count" },
+    ])
+    .toArray();
+  return result ? result.count : 0;
+};
+
+export const findHighScores = async (
+  game: string,
+  mode: string,
+  options: HighScoreOptions = {}
+): Promise<DatabaseResult<ScoreRecord[]>> => {
+  try {
+    const { limit = 100, cursor, order } = options;
+    const scores = await findLeaderboardEntries(
+      game,
+      await getBoardQuery(game, mode, options),
+      getLeaderboardSort(order),
+      limit,
+      options,
+      cursor ? getCursorFilter(cursor, order) : {}
+    );
+    return { success: true, data: scores };
+  } catch (error) {
+    console.error(`Error finding scores by mode for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Number of entries on a board (ignores limit and cursor)
+export const countHighScores = async (
+  game: string,
+  mode: string,
+  options: HighScoreOptions = {}
+): Promise<DatabaseResult<number>> => {
+  try {
+    const total = await countLeaderboardEntries(
+      game,
+      await getBoardQuery(game, mode, options),
+      options.perPlayer
+    );
+    return { success: true, data: total };
+  } catch (error) {
+    console.error(`Error counting scores by mode for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Rank of a player's best score, with the neighbouring entries on the board
+// (null when the player has no score on the board)
+export const findPlayerRank = async (
+  game: string,
+  mode: string,
+  player: string,
+  options: HighScoreOptions & { neighbors?: number } = {}
+): Promise<DatabaseResult<PlayerRank | null>> => {
+  try {
+    const { perPlayer = false, neighbors = 5, order } = options;
+    const boardQuery = await getBoardQuery(game, mode, {
+      since: options.since,
+    });
+    const sort = getLeaderboardSort(order);
+
+    const [entry] = await getScoresCollection(game)
+      .find({ ...boardQuery, player: { ...boardQuery.player, $eq: player } })
+      .sort(sort)
+      .limit(1)
+      .toArray();
+    if (!entry) {
+      return { success: true, data: null };
+    }
+
+    // Players with a different entry are compared by their own best score
+    const others: Document = perPlayer
+      ? { player: { ...boardQuery.player, $ne: player } }
+      : {};
+
+    // Entries on either side of the player's, in the board's own order
+    // (equal scores are ranked by timestamp, then id)
+    const cursor = {
+      score: entry.score,
+      timestamp: entry.timestamp,
+      id: entry._id!,
+    };
+    const before = getPrecedingFilter(cursor, order);
+    const after = getCursorFilter(cursor, order);
+
+    const betterCount = await countLeaderboardEntries(
+      game,
+      { ...boardQuery, ...others, ...before },
+      perPlayer
+    );
+    const total = await countLeaderboardEntries(game, boardQuery, perPlayer);
+    const rank = betterCount + 1;
+
+    const above =
+      neighbors > 0
+        ? await findLeaderboardEntries(
+            game,
+            { ...boardQuery, ...others },
+            { score: -sort.score, timestamp: -1, _id: -1 },
+            neighbors,
+            options,
+            before
+          )
+        : [];
+    const below =
+      neighbors > 0
+        ? await findLeaderboardEntries(
+            game,
+            { ...boardQuery, ...others },
+            sort,
+            neighbors,
+            options,
+            after
+          )
+        : [];
+
+    return {
+      success: true,
+      data: {
+        rank,
+        total,
+        percentile: Math.round((1 - (rank - 1) / total) * 10000) / 100,
+        entry,
+        above: above.reverse(),
+        below,
+      },
+    };
+  } catch (error) {
+    console.error(`Error finding rank of ${player} for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+export const setScoreHidden = async (
+  game: string,
+  scoreId: ObjectId,
+  hidden: boolean
+): Promise<DatabaseResult<ScoreRecord | null>> => {
+  try {
+    const score = await getScoresCollection(game).findOneAndUpdate(
+      { _id: scoreId },
+      { $set: { hidden } },
+      { returnDocument: "after" }
+    );
+    return { success: true, data: score };
+  } catch (error) {
+    console.error(`Error updating score ${scoreId} for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+export const getPlayerBansCollection = (): Collection<PlayerBan> => {
+  return getDB().collection<PlayerBan>(PLAYER_BANS_COLLECTION);
+};
+
+export const findPlayerBans = async (
+  game: string
+): Promise<DatabaseResult<PlayerBan[]>> => {
+  try {
+    const bans = await getPlayerBansCollection()
+      .find({ game })
+      .sort({ created_at: -1 })
+      .toArray();
+    return { success: true, data: bans };
+  } catch (error) {
+    console.error(`Error finding player bans for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Ban a player from a game's leaderboards (banning again updates the reason)
+export const banPlayer = async (
+  game: string,
+  player: string,
+  reason?: string
+): Promise<DatabaseResult<PlayerBan | null>> => {
+  try {
+    const ban = await getPlayerBansCollection().findOneAndUpdate(
+      { game, player },
+      {
+        ...(reason && { $set: { reason } }),
+        $setOnInsert: { game, player, created_at: new Date() },
+      },
+      { upsert: true, returnDocument: "after" }
+    );
+    return { success: true, data: ban };
+  } catch (error) {
+    console.error(`Error banning player ${player} for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Lift a ban, returning whether the player was banned
+export const unbanPlayer = async (
+  game: string,
+  player: string
+): Promise<DatabaseResult<boolean>> => {
+  try {
+    const result = await getPlayerBansCollection().deleteOne({ game, player });
+    return { success: true, data: result.deletedCount > 0 };
+  } catch (error) {
+    console.error(`Error removing ban of ${player} for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Everything held about a player for one game, for a privacy export
+export const findPlayerData = async (
+  game: string,
+  player: string
+): Promise<DatabaseResult<PlayerData>> => {
+  try {
+    const data: PlayerData = {
+      events: await getEventsCollection(game)
+        .find({ player })
+        .sort({ timestamp: 1 })
+        .toArray(),
+      scores: await getScoresCollection(game)
+        .find({ player })
+        .sort({ timestamp: 1 })
+        .toArray(),
+      summaries: await getPlayersCollection(game).find({ player }).toArray(),
+      runs: await getRunsCollection(game)
+        .find({ player })
+        .sort({ started_at: 1 })
+        .toArray(),
+      bans: await getPlayerBansCollection().find({ game, player }).toArray(),
+    };
+    return { success: true, data };
+  } catch (error) {
+    console.error(`Error finding player data for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Rows of materialized views grouped by player (the player is the row's _id or
+// one of its fields)
+const getPlayerRollupsFilter = (player: string): Filter<RollupRow> => ({
+  $or: [{ "data._id": player }, { "data.player": player }],
+});
+
+// Delete everything held about a player for one game
+export const erasePlayerData = async (
+  game: string,
+  player: string
+): Promise<DatabaseResult<PlayerDataChanges>> => {
+  try {
+    const events = await getEventsCollection(game).deleteMany({ player });
+    const scores = await getScoresCollection(game).deleteMany({ player });
+    const summaries = await getPlayersCollection(game).deleteMany({ player });
+    const runs = await getRunsCollection(game).deleteMany({ player });
+    const bans = await getPlayerBansCollection().deleteMany({ game, player });
+    const deliveries = await getWebhookDeliveriesCollection().deleteMany({
+      game,
+      player,
+    });
+    const rollups = await getRollupsCollection(game).deleteMany(
+      getPlayerRollupsFilter(player)
+    );
+
+    return {
+      success: true,
+      data: {
+        game,
+        events: events.deletedCount,
+        scores: scores.deletedCount,
+        summaries: summaries.deletedCount,
+        runs: runs.deletedCount,
+        bans: bans.deletedCount,
+        webhook_deliveries: deliveries.deletedCount,
+        rollups: rollups.deletedCount,
+      },
+    };
+  } catch (error) {
+    console.error(`Error erasing player data for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Replace a player's id (and the name shown with their scores) with a
+// pseudonym for one game, keeping the records for aggregate analytics. Other
+// payload fields are kept as they are.
+export const pseudonymizePlayerData = async (
+  game: string,
+  player: string,
+  pseudonym: string
+): Promise<DatabaseResult<PlayerDataChanges>> => {
+  try {
+    const eventsCollection = getEventsCollection(game);
+    await eventsCollection.updateMany(
+      { player, "data.player_name": { $exists: true } },
+      { $set: { "data.player_name": pseudonym } }
+    );
+    const events = await eventsCollection.updateMany(
+      { player },
+      { $set: { player: pseudonym } }
+    );
+    const scores = await getScoresCollection(game).updateMany(
+      { player },
+      {
+        $set: {
+          player: pseudonym,
+          player_name: pseudonym,
+          "data.player_name": pseudonym,
+        },
+      }
+    );
+    const summaries = await getPlayersCollection(game).updateMany(
+      { player },
+      { $set: { player: pseudonym } }
+    );
+    const runs = await getRunsCollection(game).updateMany(
+      { player },
+      { $set: { player: pseudonym } }
+    );
+    const bans = await getPlayerBansCollection().updateMany(
+      { game, player },
+      { $set: { player: pseudonym } }
+    );
+
+    // Delivered payloads carry the event (event and new_version triggers) or
+    // the leaderboard entry (top_score) of the player
+    const deliveriesCollection = getWebhookDeliveriesCollection();
+    await deliveriesCollection.updateMany(
+      { game, player, "payload.event": { $exists: true } },
+      { $set: { "payload.event.player": pseudonym } }
+    );
+    await deliveriesCollection.updateMany(
+      { game, player, "payload.event.data.player_name": { $exists: true } },
+      { $set: { "payload.event.data.player_name": pseudonym } }
+    );
+    await deliveriesCollection.updateMany(
+      { game, player, "payload.entry.player_name": { $exists: true } },
+      { $set: { "payload.entry.player_name": pseudonym } }
+    );
+    const deliveries = await deliveriesCollection.updateMany(
+      { game, player },
+      { $set: { player: pseudonym } }
+    );
+
+    const rollupsCollection = getRollupsCollection(game);
+    const rollupIds = await rollupsCollection.updateMany(
+      { "data._id": player },
+      { $set: { "data._id": pseudonym } }
+    );
+    const rollupFields = await rollupsCollection.updateMany(
+      { "data.player": player },
+      { $set: { "data.player": pseudonym } }
+    );
+
+    return {
+      success: true,
+      data: {
+        game,
+        events: events.modifiedCount,
+        scores: scores.modifiedCount,
+        summaries: summaries.modifiedCount,
+        runs: runs.modifiedCount,
+        bans: bans.modifiedCount,
+        webhook_deliveries: deliveries.modifiedCount,
+        rollups: rollupIds.modifiedCount + rollupFields.modifiedCount,
+      },
+    };
+  } catch (error) {
+    console.error(`Error pseudonymizing player data for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+export const getPrivacyRequestsCollection = (): Collection<PrivacyRequest> => {
+  return getDB().collection<PrivacyRequest>(PRIVACY_REQUESTS_COLLECTION);
+};
+
+// Hash of a player id, so that privacy requests can be looked up by player
+// without the audit log storing the id
+export const hashPlayerId = (player: string) => {
+  return crypto.createHash("sha256").update(player).digest("hex");
+};
+
+export const insertPrivacyRequest = async (
+  request: PrivacyRequest
+): Promise<DatabaseResult<PrivacyRequest>> => {
+  try {
+    await getPrivacyRequestsCollection().insertOne(request);
+    return { success: true, data: request };
+  } catch (error) {
+    console.error("Error recording privacy request:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Privacy requests, most recent first, optionally only those of one player
+export const findPrivacyRequests = async (
+  player?: string
+): Promise<DatabaseResult<PrivacyRequest[]>> => {
+  try {
+    const requests = await getPrivacyRequestsCollection()
+      .find(player === undefined ? {} : { player_hash: hashPlayerId(player) })
+      .sort({ created_at: -1 })
+      .limit(PRIVACY_REQUESTS_LIMIT)
+      .toArray();
+    return { success: true, data: requests };
+  } catch (error) {
+    console.error("Error finding privacy requests:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+export const getWebhooksCollection = (): Collection<Webhook> => {
+  return getDB().collection<Webhook>(WEBHOOKS_COLLECTION);
+};
+
+export const getWebhookDeliveriesCollection =
+  (): Collection<WebhookDelivery> => {
+    return getDB().collection<WebhookDelivery>(WEBHOOK_DELIVERIES_COLLECTION);
+  };
+
+const getGameVersionsCollection = (): Collection<GameVersion> => {
+  return getDB().collection<GameVersion>(GAME_VERSIONS_COLLECTION);
+};
+
+export const createWebhook = async (
+  game: string,
+  input: CreateWebhookInput,
+  createdBy: string
+): Promise<DatabaseResult<Webhook>> => {
+  try {
+    const webhook: Webhook = {
+      webhook_id: crypto.randomBytes(6).toString("hex"),
+      game,
+      url: input.url,
+      secret: `whs_${crypto.randomBytes(24).toString("hex")}`,
+      trigger: input.trigger,
+      created_by: createdBy,
+      created_at: new Date(),
+    };
+    if (input.description) {
+      webhook.description = input.description;
+    }
+
+    await getWebhooksCollection().insertOne(webhook);
+    return { success: true, data: webhook };
+  } catch (error) {
+    console.error(`Error creating webhook for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+export const findWebhooks = async (
+  game: string
+): Promise<DatabaseResult<Webhook[]>> => {
+  try {
+    const webhooks = await getWebhooksCollection()
+      .find({ game })
+      .sort({ created_at: 1 })
+      .toArray();
+    return { success: true, data: webhooks };
+  } catch (error) {
+    console.error(`Error finding webhooks for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+export const findWebhook = async (
+  game: string,
+  webhookId: string
+): Promise<DatabaseResult<Webhook | null>> => {
+  try {
+    const webhook = await getWebhooksCollection().findOne({
+      game,
+      webhook_id: webhookId,
+    });
+    return { success: true, data: webhook };
+  } catch (error) {
+    console.error(`Error finding webhook ${webhookId} for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+export const deleteWebhook = async (
+  game: string,
+  webhookId: string
+): Promise<DatabaseResult<boolean>> => {
+  try {
+    const result = await getWebhooksCollection().deleteOne({
+      game,
+      webhook_id: webhookId,
+    });
+    return { success: true, data: result.deletedCount > 0 };
+  } catch (error) {
+    console.error(`Error deleting webhook ${webhookId} for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Mark an event_spike webhook as fired, unless it already fired since the
+// given time (so that it fires once per window, also with several instances)
+export const claimWebhookFiring = async (
+  webhook: Webhook,
+  since: Date,
+  now: Date
+): Promise<DatabaseResult<boolean>> => {
+  try {
+    const claimed = await getWebhooksCollection().findOneAndUpdate(
+      {
+        webhook_id: webhook.webhook_id,
+        $or: [
+          { last_fired_at: { $exists: false } },
+          { last_fired_at: { $lt: since } },
+        ],
+      },
+      { $set: { last_fired_at: now } }
+    );
+    return { success: true, data: claimed !== null };
+  } catch (error) {
+    console.error(`Error claiming webhook ${webhook.webhook_id}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Record a version of a game (true when it was not seen before)
+export const recordGameVersion = async (
+  game: string,
+  field: string,
+  version: string
+): Promise<DatabaseResult<boolean>> => {
+  try {
+    await getGameVersionsCollection().insertOne({
+      game,
+      field,
+      version,
+      first_seen: new Date(),
+    });
+    return { success: true, data: true };
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return { success: true, data: false };
+    }
+
+    console.error(`Error recording version for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Events of the given names recorded since a point in time
+export const countRecentEvents = async (
+  game: string,
+  eventNames: string[],
+  since: Date
+): Promise<DatabaseResult<number>> => {
+  try {
+    const count = await getEventsCollection(game).countDocuments({
+      event_name: { $in: eventNames },
+      timestamp: { $gte: since },
+    });
+    return { success: true, data: count };
+  } catch (error) {
+    console.error(`Error counting recent events for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+export const insertWebhookDelivery = async (
+  delivery: WebhookDelivery
+): Promise<DatabaseResult<WebhookDelivery>> => {
+  try {
+    await getWebhookDeliveriesCollection().insertOne(delivery);
+    return { success: true, data: delivery };
+  } catch (error) {
+    console.error(
+      `Error recording webhook delivery for ${delivery.game}:`,
+      error
+    );
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Claim the pending delivery due the longest, pushing its next attempt back by
+// the lease so that no other instance attempts it meanwhile
+export const claimDueWebhookDelivery = async (
+  now: Date,
+  leaseMs: number
+): Promise<DatabaseResult<WebhookDelivery | null>> => {
+  try {
+    const delivery = await getWebhookDeliveriesCollection().findOneAndUpdate(
+      { status: "pending", next_attempt_at: { $lte: now } },
+      { $set: { next_attempt_at: new Date(now.getTime() + leaseMs) } },
+      { sort: { next_attempt_at: 1 }, returnDocument: "after" }
+    );
+    return { success: true, data: delivery };
+  } catch (error) {
+    console.error("Error claiming webhook delivery:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Record the outcome of a delivery attempt
+export const updateWebhookDelivery = async (
+  deliveryId: string,
+  changes: Partial<WebhookDelivery>,
+  unset: (keyof WebhookDelivery)[] = []
+): Promise<DatabaseResult<WebhookDelivery | null>> => {
+  try {
+    const delivery = await getWebhookDeliveriesCollection().findOneAndUpdate(
+      { delivery_id: deliveryId },
+      {
+        $set: changes,
+        ...(unset.length > 0 && {
+          $unset: Object.fromEntries(unset.map((field) => [field, ""])),
+        }),
+      },
+      { returnDocument: "after" }
+    );
+    return { success: true, data: delivery };
+  } catch (error) {
+    console.error(`Error updating webhook delivery ${deliveryId}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Deliveries of a webhook, most recent first
+export const findWebhookDeliveries = async (
+  game: string,
+  webhookId: string,
+  query: WebhookDeliveriesQuery
+): Promise<DatabaseResult<WebhookDelivery[]>> => {
+  try {
+    const deliveries = await getWebhookDeliveriesCollection()
+      .find({
+        game,
+        webhook_id: webhookId,
+        ...(query.status && { status: query.status }),
+      })
+      .sort({ created_at: -1 })
+      .limit(query.limit)
+      .toArray();
+    return { success: true, data: deliveries };
+  } catch (error) {
+    console.error(`Error finding deliveries of webhook ${webhookId}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// MongoDB error code for an operation that ran past its maxTimeMS
+const MAX_TIME_EXPIRED_ERROR = 50;
+
+export const QUERY_TIMEOUT_ERROR = "Query exceeded its time limit";
+
+export const isMaxTimeExpiredError = (error: unknown) => {
+  return (error as { code?: unknown })?.code === MAX_TIME_EXPIRED_ERROR;
+};
+
+// Values of a key anywhere in an explain output
+const findExplainValues = (value: unknown, key: string): unknown[] => {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => findExplainValues(item, key));
+  }
+  if (!value || typeof value !== "object") {
+    return [];
+  }
+  return Object.entries(value).flatMap(([childKey, child]) => [
+    ...(childKey === key ? [child] : []),
+    ...findExplainValues(child, key),
+  ]);
+};
+
+const sumExplainValues = (explain: Document, key: string) => {
+  return findExplainValues(explain, key)
+    .filter((value): value is number => typeof value === "number")
+    .reduce((total, value) => total + value, 0);
+};
+
+// Ask the query planner whether an analytics pipeline would scan the whole
+// events collection (without running it)
+export const explainAnalyticsQuery = async (
+  game: string,
+  pipeline: Document[]
+): Promise<DatabaseResult<AnalyticsQueryPlan>> => {
+  try {
+    const collection = getEventsCollection(game);
+    const explain = await collection
+      .aggregate(pipeline)
+      .explain("queryPlanner");
+    const collectionScan = findExplainValues(explain, "stage").includes(
+      "COLLSCAN"
+    );
+
+    return {
+      success: true,
+      data: {
+        collection_scan: collectionScan,
+        collection_size: await collection.estimatedDocumentCount(),
+      },
+    };
+  } catch (error) {
+    console.error(`Error explaining analytics query for ${game}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+// Helper function to execute a sanitized aggregation pipeline
+// (validate it with validatePipeline first)
+export const executeAnalyticsQuery = async (
+  game: string,
+  pipeline: Document[],
+  options: AnalyticsQueryOptions
+): Promise<DatabaseResult<AnalyticsQueryResult>> => {
+  const { maxTimeMS, allowDiskUse, includeStats, signal } = options;
+  const collection = getEventsCollection(game);
+
+  try {
+    // Aborting the signal stops the query on the server when the caller goes away
+    const startedAt = Date.now();
+    const results = await collection
+      .aggregate(pipeline, { maxTimeMS, allowDiskUse, signal })
+      .toArray();
+    const stats: AnalyticsQueryStats = {
+      execution_time_ms: Date.now() - startedAt,
+      max_time_ms: maxTimeMS,
+      allow_disk_use: allowDiskUse,
+    };
+
+    // Explaining with execution stats runs the pipeline again, so it only gets
+    // what is left of the time budget (the stats are left out when it runs out)
+    const remainingTimeMS = maxTimeMS - stats.execution_time_ms;
+    if (includeStats && remainingTimeMS > 0) {
+      try {
+        const explain = await collection
+          .aggregate(pipeline, {
+            maxTimeMS: remainingTimeMS,
+            allowDiskUse,
+            signal,
+          })
+          .explain("executionStats");
+        stats.docs_examined = sumExplainValues(explain, "totalDocsExamined");
+        stats.keys_examined = sumExplainValues(explain, "totalKeysExamined");
+      } catch (error) {
+        if (!isMaxTimeExpiredError(error)) throw error;
+      }
+    }
+
+    return { success: true, data: { results, stats } };
+  } catch (error) {
+    if (isMaxTimeExpiredError(error)) {
+      return { success: false, error: QUERY_TIMEOUT_ERROR };
+    }
+    if (signal?.aborted) {
+      return { success: false, error: "Query was cancelled" };
+    }
+
     console.error(`Error executing analytics query for ${game}:`, error);
     return {
       success: false,
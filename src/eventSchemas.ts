@@ -0,0 +1,282 @@
+import express, { Request, Response } from "express";
+
+import { getGrant } from "./auth";
+import {
+  deleteEventSchema,
+  findEventSchemas,
+  findRecentEventNames,
+  getSupportedGames,
+  saveEventSchema,
+} from "./db";
+import {
+  EventSchema,
+  GameEvent,
+  PayloadSchema,
+  PayloadType,
+  SaveEventSchemaInput,
+  saveEventSchemaSchema,
+  SchemaMode,
+} from "./types";
+import { formatValidationErrors, validateInput } from "./validation";
+
+// How long a game's schemas are cached (changes made here clear the cache at once)
+const EVENT_SCHEMA_CACHE_MS = 30000;
+
+// Event names seen this recently are listed even without a schema
+const RECENT_EVENT_NAMES_MS = 30 * 24 * 60 * 60 * 1000;
+
+const getPayloadType = (value: unknown): PayloadType | undefined => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  if (["object", "string", "boolean"].includes(typeof value)) {
+    return typeof value as PayloadType;
+  }
+  return undefined;
+};
+
+const matchesType = (expected: PayloadType, actual?: PayloadType) =>
+  expected === actual || (expected === "number" && actual === "integer");
+
+// Problems with a value according to a payload schema, one message per problem
+export const validatePayload = (
+  schema: PayloadSchema,
+  value: unknown,
+  path: string = "data"
+): string[] => {
+  const type = getPayloadType(value);
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((expected) => matchesType(expected, type))) {
+      return [`${path} must be of type ${types.join(" or ")}`];
+    }
+  }
+
+  if (
+    schema.enum &&
+    !schema.enum.some((allowed) => allowed === (value as unknown))
+  ) {
+    return [`${path} must be one of ${schema.enum.join(", ")}`];
+  }
+
+  const problems: string[] = [];
+
+  if (type === "number" || type === "integer") {
+    const number = value as number;
+    if (schema.minimum !== undefined && number < schema.minimum) {
+      problems.push(`${path} must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && number > schema.maximum) {
+      problems.push(`${path} must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (type === "string") {
+    const text = value as string;
+    if (schema.minLength !== undefined && text.length < schema.minLength) {
+      problems.push(`${path} must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && text.length > schema.maxLength) {
+      problems.push(`${path} must be at most ${schema.maxLength} characters`);
+    }
+    if (
+      schema.pattern !== undefined &&
+      !new RegExp(schema.pattern).test(text)
+    ) {
+      problems.push(`${path} must match ${schema.pattern}`);
+    }
+  }
+
+  if (type === "array") {
+    const items = value as unknown[];
+    if (schema.minItems !== undefined && items.length < schema.minItems) {
+      problems.push(`${path} must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && items.length > schema.maxItems) {
+      problems.push(`${path} must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      items.forEach((item, index) => {
+        problems.push(
+          ...validatePayload(schema.items!, item, `${path}.${index}`)
+        );
+      });
+    }
+  }
+
+  if (type === "object") {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) {
+        problems.push(`${path}.${key} is required`);
+      }
+    }
+    for (const [key, child] of Object.entries(object)) {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        problems.push(...validatePayload(childSchema, child, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        problems.push(`${path}.${key} is not allowed`);
+      }
+    }
+  }
+
+  return problems;
+};
+
+const schemaCache = new Map<
+  string,
+  { schemas: Map<string, EventSchema>; loadedAt: number }
+>();
+
+// Schemas of a game by event name. Events are not held up when the schemas
+// cannot be loaded, they are accepted unchecked.
+const getEventSchemas = async (game: string) => {
+  const cached = schemaCache.get(game);
+  if (cached && Date.now() - cached.loadedAt < EVENT_SCHEMA_CACHE_MS) {
+    return cached.schemas;
+  }
+
+  const result = await findEventSchemas(game);
+  if (!result.success || !result.data) {
+    return cached?.schemas ?? new Map<string, EventSchema>();
+  }
+
+  const schemas = new Map(
+    result.data.map((schema) => [schema.event_name, schema])
+  );
+  schemaCache.set(game, { schemas, loadedAt: Date.now() });
+  return schemas;
+};
+
+// Check an event's payload against the schema of its event name (undefined
+// when the event name has no schema or the payload matches it)
+export const checkEventPayload = async (
+  event: GameEvent
+): Promise<{ mode: SchemaMode; violations: string[] } | undefined> => {
+  const schema = (await getEventSchemas(event.game)).get(event.event_name);
+  if (!schema) {
+    return undefined;
+  }
+
+  const violations = validatePayload(schema.schema, event.data);
+  return violations.length > 0 ? { mode: schema.mode, violations } : undefined;
+};
+
+const formatEventSchema = (schema: EventSchema) => ({
+  event_name: schema.event_name,
+  schema: schema.schema,
+  mode: schema.mode,
+  description: schema.description,
+  updated_by: schema.updated_by,
+  updated_at: schema.updated_at,
+});
+
+// Known event names of a game with their schemas, as documentation for game
+// developers: every name with a schema, and names recently recorded without one
+export const listEventSchemas = async (req: Request, res: Response) => {
+  const game = req.params.game;
+  if (!getSupportedGames().includes(game)) {
+    return res.status(404).json({
+      error: "Game not found",
+      message: "No game is registered with this name",
+    });
+  }
+
+  const schemas = await findEventSchemas(game);
+  const recentNames = await findRecentEventNames(
+    game,
+    new Date(Date.now() - RECENT_EVENT_NAMES_MS)
+  );
+  if (!schemas.success || !schemas.data || !recentNames.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to list event schemas",
+    });
+  }
+
+  const documented = new Set(schemas.data.map((schema) => schema.event_name));
+  const undocumented = (recentNames.data || [])
+    .filter((name) => !documented.has(name))
+    .map((name) => ({ event_name: name, schema: null }));
+
+  res.json(
+    [...schemas.data.map(formatEventSchema), ...undocumented].sort((a, b) =>
+      a.event_name.localeCompare(b.event_name)
+    )
+  );
+};
+
+const putEventSchema = async (req: Request, res: Response) => {
+  const { game, eventName } = req.params;
+  if (!getSupportedGames().includes(game)) {
+    return res.status(404).json({
+      error: "Game not found",
+      message: "No game is registered with this name",
+    });
+  }
+
+  const validationResult = await validateInput<SaveEventSchemaInput>(
+    saveEventSchemaSchema,
+    req.body
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid schema data",
+      message: "Schema validation failed",
+      details: errors,
+    });
+  }
+
+  const result = await saveEventSchema(
+    game,
+    eventName,
+    validationResult.data,
+    getGrant(res).name
+  );
+  if (!result.success || !result.data) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to save event schema",
+    });
+  }
+
+  schemaCache.delete(game);
+  res.json(formatEventSchema(result.data));
+};
+
+const removeEventSchema = async (req: Request, res: Response) => {
+  const { game, eventName } = req.params;
+  const result = await deleteEventSchema(game, eventName);
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to delete event schema",
+    });
+  }
+  if (!result.data) {
+    return res.status(404).json({
+      error: "Event schema not found",
+      message: "No schema is registered for this event name",
+    });
+  }
+
+  schemaCache.delete(game);
+  res.json({ message: "Event schema deleted" });
+};
+
+// Admin routes for the payload schemas of a game's events
+export const createEventSchemaRoutes = () => {
+  const router = express.Router({ mergeParams: true });
+
+  router.get("/", listEventSchemas);
+  router.put("/:eventName", putEventSchema);
+  router.delete("/:eventName", removeEventSchema);
+
+  return router;
+};
@@ -1,80 +1,264 @@
 import express, { Request, Response } from "express";
 
 import {
+  getGameConfig,
   getSupportedGames,
   insertEvent,
+  insertEvents,
   insertScore,
+  flagEvent,
   findHighScores,
-  executeAnalyticsQuery,
+  findPlayerRank,
+  countHighScores,
+  updatePlayerSummaries,
+  updateRunSummaries,
 } from "./db";
 import {
-  AnalyticsQuery,
-  analyticsQuerySchema,
+  EventRecord,
   GameEvent,
+  gameEventBatchSchema,
   gameEventSchema,
+  HighScoreOptions,
+  HighScoresQuery,
+  highScoresQuerySchema,
+  LiveLeaderboardQuery,
+  liveLeaderboardQuerySchema,
+  PlayerRankQuery,
+  playerRankQuerySchema,
   ScoreRecord,
 } from "./types";
 import { formatValidationErrors, validateInput } from "./validation";
+import { requireRole, verifyIngestRequest } from "./auth";
+import { buildScoreRecord, checkScoreRules } from "./scores";
+import { moderatePlayerName } from "./moderation";
+import { checkEventPayload, listEventSchemas } from "./eventSchemas";
+import { rateLimit, RateLimitTarget } from "./rateLimit";
+import { triggerEventWebhooks, triggerScoreWebhooks } from "./webhooks";
+import { encodeLeaderboardCursor, getWindowStart } from "./leaderboard";
+import {
+  LiveSend,
+  openLiveStream,
+  publishEvents,
+  publishScore,
+  subscribeScores,
+} from "./live";
 
-// Game events endpoint
-const handleEvent = async (req: Request, res: Response) => {
-  try {
-    const validationResult = await validateInput<GameEvent>(
-      gameEventSchema,
-      req.body
-    );
+const isModeAllowed = (game: string, mode: string) => {
+  const modes = getGameConfig(game)?.modes || [];
+  return modes.length === 0 || modes.includes(mode);
+};
 
-    if (!validationResult.data) {
-      const errors = formatValidationErrors(validationResult.error);
-      return res.status(400).json({
+// An event that was rejected before being written, with the status and body to report
+interface IngestFailure {
+  status: number;
+  error: string;
+  message: string;
+  details?: string[];
+}
+
+// A validated event, plus the score record to write if it is a high score event
+// and the schema problems to warn about
+interface PreparedEvent {
+  event: EventRecord;
+  score?: ScoreRecord;
+  warnings?: string[];
+}
+
+type VerifyGame = (game: string) => Promise<IngestFailure | undefined>;
+
+// Validate a single event and check the request is allowed to write it
+const prepareEvent = async (
+  body: unknown,
+  verifyGame: VerifyGame
+): Promise<{ prepared?: PreparedEvent; failure?: IngestFailure }> => {
+  const validationResult = await validateInput<GameEvent>(
+    gameEventSchema,
+    body
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return {
+      failure: {
+        status: 400,
         error: "Invalid event data",
         message: "Event validation failed",
         details: errors,
-      });
-    }
+      },
+    };
+  }
 
-    const eventData = validationResult.data;
-    eventData.data = eventData.data || {};
+  const eventData = validationResult.data;
+  eventData.data = eventData.data || {};
 
-    // Validate game is supported
-    if (!getSupportedGames().includes(eventData.game)) {
-      return res.status(400).json({
+  // Validate game is supported
+  if (!getSupportedGames().includes(eventData.game)) {
+    return {
+      failure: {
+        status: 400,
         error: "Invalid game",
         message: "Game is not supported",
+      },
+    };
+  }
+
+  // Validate mode is allowed for the game (an empty list allows any mode)
+  if (eventData.mode && !isModeAllowed(eventData.game, eventData.mode)) {
+    return {
+      failure: {
+        status: 400,
+        error: "Invalid mode",
+        message: "Mode is not supported for this game",
+      },
+    };
+  }
+
+  // Validate the game's API key and request signature
+  const authFailure = await verifyGame(eventData.game);
+  if (authFailure) {
+    return { failure: authFailure };
+  }
+
+  // Check the payload against the schema registered for the event name
+  const event: EventRecord = eventData;
+  const schemaCheck = await checkEventPayload(event);
+  if (schemaCheck?.mode === "reject") {
+    return {
+      failure: {
+        status: 400,
+        error: "Invalid event data",
+        message: `Event data does not match the schema of ${event.event_name}`,
+        details: schemaCheck.violations,
+      },
+    };
+  }
+  if (schemaCheck?.mode === "flag") {
+    event.schema_violations = schemaCheck.violations;
+  }
+
+  // If the event is a high score event, build the record for the scores collection
+  const score = buildScoreRecord(eventData);
+
+  // Mask or reject player names with blocked words before they reach a leaderboard
+  if (score) {
+    const playerName = moderatePlayerName(score.game, score.player_name);
+    if (playerName === undefined) {
+      return {
+        failure: {
+          status: 400,
+          error: "Invalid player name",
+          message: "Player name is not allowed",
+        },
+      };
+    }
+    // The event's data is also served with the score, so it gets the same name
+    event.data = { ...event.data, player_name: playerName };
+    score.player_name = playerName;
+    score.data = event.data;
+  }
+
+  return {
+    prepared: { event, score, warnings: schemaCheck?.violations },
+  };
+};
+
+// Update what is derived from newly recorded events (never the same event twice).
+// Summary counters are not safe to retry, so a failed update is reported for the
+// summaries to be rebuilt instead.
+const recordEventActivity = async (game: string, events: EventRecord[]) => {
+  if (events.length === 0) return;
+  publishEvents(events);
+  triggerEventWebhooks(game, events);
+
+  // Player summaries count the runs whose summary the events started
+  const runsResult = await updateRunSummaries(game, events);
+  const playersResult = await updatePlayerSummaries(
+    game,
+    events,
+    runsResult.data ?? []
+  );
+  if (!playersResult.success || !runsResult.success) {
+    console.error(
+      `Summaries of ${game} missed ${events.length} events, rebuild them with POST /api/admin/games/${game}/players/rebuild`
+    );
+  }
+};
+
+// Game events endpoint
+const handleEvent = async (req: Request, res: Response) => {
+  try {
+    const { prepared, failure } = await prepareEvent(req.body, (game) =>
+      verifyIngestRequest(req, game)
+    );
+
+    if (!prepared) {
+      return res.status(failure!.status).json({
+        error: failure!.error,
+        message: failure!.message,
+        details: failure!.details,
+      });
+    }
+
+    // Insert the event into the game-specific collection first, so that a failed
+    // insert does not leave its score on the leaderboard
+    const insertResult = await insertEvent(prepared.event);
+    if (!insertResult.success) {
+      return res.status(500).json({
+        error: "Database error",
+        message: "Failed to record event",
       });
     }
+    const duplicate = insertResult.data?.duplicate;
 
     // If the event is a high score event, insert the score into the scores collection
-    const playerName = eventData.data.player_name;
-    const score = eventData.data.score;
-    if (
-      eventData.event_name === "high_score" &&
-      eventData.mode &&
-      eventData.run &&
-      playerName &&
-      typeof playerName === "string" &&
-      score &&
-      typeof score === "number"
-    ) {
-      const scoreRecord: ScoreRecord = {
-        game: eventData.game,
-        mode: eventData.mode,
-        player: eventData.player,
-        run: eventData.run,
-        player_name: playerName,
-        score: score,
-        data: eventData.data,
-        timestamp: eventData.timestamp,
-      };
+    // unless it breaks the game's score rules (then the event is flagged)
+    if (prepared.score) {
+      const reasons = await checkScoreRules(prepared.score, prepared.event._id);
+      if (reasons.length > 0 && !duplicate) {
+        const flag = { reasons, flagged_at: new Date() };
+        const flagResult = await flagEvent(
+          prepared.event.game,
+          prepared.event._id!,
+          flag
+        );
+        // The event is stored, but a score left unflagged would escape review
+        if (!flagResult.success) {
+          return res.status(500).json({
+            error: "Database error",
+            message: "Failed to flag score",
+          });
+        }
+        prepared.event.flagged = flag;
+      }
+
+      // Also for duplicates, in case the score of an earlier attempt was lost
+      if (reasons.length === 0) {
+        const scoreResult = await insertScore(prepared.score);
+        if (!scoreResult.success) {
+          return res.status(500).json({
+            error: "Database error",
+            message: "Failed to record score",
+          });
+        }
+        if (scoreResult.data?.duplicate === false) {
+          publishScore(prepared.score);
+          triggerScoreWebhooks(prepared.score);
+        }
+      }
+    }
 
-      await insertScore(scoreRecord);
+    // A retried event with a known event_id is acknowledged without a second copy
+    if (duplicate) {
+      return res.status(200).json({
+        message: "Event already recorded",
+      });
     }
 
-    // Insert the event into the game-specific collection
-    await insertEvent(eventData);
+    await recordEventActivity(prepared.event.game, [prepared.event]);
 
     res.status(201).json({
       message: "Event recorded successfully",
+      warnings: prepared.warnings,
     });
   } catch (error) {
     console.error("Error processing event:", error);
@@ -85,9 +269,212 @@ const handleEvent = async (req: Request, res: Response) => {
   }
 };
 
+// Per-item outcome reported by the batch endpoint
+interface BatchItemResult {
+  index: number;
+  status: "recorded" | "duplicate" | "rejected" | "failed";
+  error?: string;
+  message?: string;
+  details?: string[];
+  warnings?: string[];
+}
+
+// Batch game events endpoint: events are validated individually and written with
+// one bulk insert per game, so a bad event does not fail the rest of the batch
+const handleEventBatch = async (req: Request, res: Response) => {
+  try {
+    const validationResult = await validateInput<unknown[]>(
+      gameEventBatchSchema,
+      req.body
+    );
+
+    if (!validationResult.data) {
+      const errors = formatValidationErrors(validationResult.error);
+      return res.status(400).json({
+        error: "Invalid batch data",
+        message: "Batch validation failed",
+        details: errors,
+      });
+    }
+
+    // Verify the request once per game rather than once per event
+    const verifications = new Map<string, Promise<IngestFailure | undefined>>();
+    const verifyGame: VerifyGame = (game) => {
+      if (!verifications.has(game)) {
+        verifications.set(game, verifyIngestRequest(req, game));
+      }
+      return verifications.get(game)!;
+    };
+
+    const results: BatchItemResult[] = [];
+    const eventsByGame = new Map<
+      string,
+      { index: number; prepared: PreparedEvent }[]
+    >();
+
+    const items = validationResult.data;
+    for (let index = 0; index < items.length; index++) {
+      const { prepared, failure } = await prepareEvent(
+        items[index],
+        verifyGame
+      );
+      if (!prepared) {
+        results[index] = {
+          index,
+          status: "rejected",
+          error: failure!.error,
+          message: failure!.message,
+          details: failure!.details,
+        };
+        continue;
+      }
+
+      const gameEvents = eventsByGame.get(prepared.event.game) || [];
+      gameEvents.push({ index, prepared });
+      eventsByGame.set(prepared.event.game, gameEvents);
+    }
+
+    for (const [game, gameEvents] of eventsByGame) {
+      const insertResult = await insertEvents(
+        game,
+        gameEvents.map(({ prepared }) => prepared.event)
+      );
+      const failedPositions = new Set(
+        insertResult.success
+          ? insertResult.data!.failed.map((failed) => failed.index)
+          : gameEvents.map((_, position) => position)
+      );
+      const duplicatePositions = new Set(insertResult.data?.duplicates);
+
+      for (let position = 0; position < gameEvents.length; position++) {
+        const { index, prepared } = gameEvents[position];
+        if (failedPositions.has(position)) {
+          results[index] = {
+            index,
+            status: "failed",
+            error: "Database error",
+            message: "Failed to record event",
+          };
+          continue;
+        }
+
+        // Scores are checked once the whole batch is stored, so a run's earlier
+        // events from the same batch count towards the score rules
+        const reasons = prepared.score
+          ? await checkScoreRules(prepared.score, prepared.event._id)
+          : [];
+        if (reasons.length > 0 && !duplicatePositions.has(position)) {
+          const flagResult = await flagEvent(game, prepared.event._id!, {
+            reasons,
+            flagged_at: new Date(),
+          });
+          // The event is stored, but a score left unflagged would escape review
+          if (!flagResult.success) {
+            results[index] = {
+              index,
+              status: "failed",
+              error: "Database error",
+              message: "Failed to flag score",
+            };
+            continue;
+          }
+        }
+
+        // Scores still go through insertScore so a run keeps a single score
+        // (also for duplicates, in case the score of an earlier attempt was lost)
+        if (prepared.score && reasons.length === 0) {
+          const scoreResult = await insertScore(prepared.score);
+          if (!scoreResult.success) {
+            results[index] = {
+              index,
+              status: "failed",
+              error: "Database error",
+              message: "Failed to record score",
+            };
+            continue;
+          }
+          if (scoreResult.data?.duplicate === false) {
+            publishScore(prepared.score);
+            triggerScoreWebhooks(prepared.score);
+          }
+        }
+
+        if (duplicatePositions.has(position)) {
+          results[index] = {
+            index,
+            status: "duplicate",
+            message: "Event already recorded",
+          };
+          continue;
+        }
+
+        results[index] = {
+          index,
+          status: "recorded",
+          warnings: prepared.warnings,
+        };
+      }
+    }
+
+    for (const [game, gameEvents] of eventsByGame) {
+      await recordEventActivity(
+        game,
+        gameEvents
+          .filter(({ index }) => results[index].status === "recorded")
+          .map(({ prepared }) => prepared.event)
+      );
+    }
+
+    const countStatus = (status: BatchItemResult["status"]) =>
+      results.filter((result) => result.status === status).length;
+
+    res.json({
+      recorded: countStatus("recorded"),
+      duplicates: countStatus("duplicate"),
+      failed: countStatus("rejected") + countStatus("failed"),
+      results,
+    });
+  } catch (error) {
+    console.error("Error processing event batch:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: "Failed to process event batch",
+    });
+  }
+};
+
+// Public shape of a leaderboard entry
+const formatScore = (score: ScoreRecord) => ({
+  player_name: score.player_name,
+  score: score.score,
+  timestamp: score.timestamp,
+  data: score.data,
+});
+
+// Resolve the leaderboard window, order and per-player setting from the query
+// and game settings
+const getLeaderboardOptions = (
+  game: string,
+  mode: string,
+  query: Pick<HighScoresQuery, "window" | "timezone" | "per_player" | "order">
+): HighScoreOptions => {
+  const settings = getGameConfig(game)?.leaderboard || {};
+  return {
+    order:
+      query.order ||
+      (settings.ascending_modes?.includes(mode) ? "asc" : "desc"),
+    since: getWindowStart(
+      query.window,
+      new Date(),
+      query.timezone || settings.timezone,
+      settings.week_start
+    ),
+    perPlayer: query.per_player ?? settings.one_entry_per_player ?? false,
+  };
+};
+
 const getHighScores = async (req: Request, res: Response) => {
   const { game, mode } = req.params;
-  const player = req.query.player as string | undefined;
 
   // Validate game is supported
   if (!getSupportedGames().includes(game)) {
@@ -97,9 +484,38 @@ const getHighScores = async (req: Request, res: Response) => {
     });
   }
 
+  if (!isModeAllowed(game, mode)) {
+    return res.status(400).json({
+      error: "Invalid mode",
+      message: "Mode is not supported for this game",
+    });
+  }
+
+  const validationResult = await validateInput<HighScoresQuery>(
+    highScoresQuerySchema,
+    req.query
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid query parameters",
+      message: "High scores query validation failed",
+      details: errors,
+    });
+  }
+
+  const { player, limit, cursor, format } = validationResult.data;
+  const options: HighScoreOptions = {
+    limit,
+    player,
+    cursor,
+    ...getLeaderboardOptions(game, mode, validationResult.data),
+  };
+
   try {
     // Get the high scores for the given game and mode using type-safe function
-    const result = await findHighScores(game, mode, 100, player);
+    const result = await findHighScores(game, mode, options);
     if (!result.success) {
       console.error("Failed to fetch high scores:", result.error);
       return res.status(500).json({
@@ -108,15 +524,31 @@ const getHighScores = async (req: Request, res: Response) => {
       });
     }
 
+    const scores = result.data || [];
+
     // Return the high scores
-    res.json(
-      (result.data || []).map((score) => ({
-        player_name: score.player_name,
-        score: score.score,
-        timestamp: score.timestamp,
-        data: score.data,
-      }))
-    );
+    if (format === "array") {
+      return res.json(scores.map(formatScore));
+    }
+
+    const totalResult = await countHighScores(game, mode, options);
+    if (!totalResult.success) {
+      console.error("Failed to count high scores:", totalResult.error);
+      return res.status(500).json({
+        error: "Database error",
+        message: "Failed to fetch high scores",
+      });
+    }
+
+    // A full page means there may be more entries after the last one
+    res.json({
+      entries: scores.map(formatScore),
+      total: totalResult.data,
+      next_cursor:
+        scores.length === limit
+          ? encodeLeaderboardCursor(scores[scores.length - 1])
+          : null,
+    });
   } catch (error) {
     console.error("Error fetching high scores:", error);
     res.status(500).json({
@@ -126,53 +558,269 @@ const getHighScores = async (req: Request, res: Response) => {
   }
 };
 
-const getAnalytics = async (req: Request, res: Response) => {
-  const validationResult = await validateInput<AnalyticsQuery>(
-    analyticsQuerySchema,
-    req.body
+// A live leaderboard shared by every stream watching the same game, mode and
+// query, so that each new score is checked and queried once per leaderboard
+// instead of once per client
+interface LiveLeaderboard {
+  senders: Set<LiveSend>;
+  entries: ScoreRecord[];
+  // Last leaderboard sent, and its JSON to skip sending it unchanged
+  leaderboard?: ReturnType<typeof formatScore>[];
+  sent?: string;
+  refreshing: Promise<void>;
+  unsubscribe: () => void;
+}
+
+const liveLeaderboards = new Map<string, LiveLeaderboard>();
+
+const createLiveLeaderboard = (
+  game: string,
+  mode: string,
+  query: LiveLeaderboardQuery
+) => {
+  const board: LiveLeaderboard = {
+    senders: new Set(),
+    entries: [],
+    refreshing: Promise.resolve(),
+    unsubscribe: () => undefined,
+  };
+
+  const refresh = async () => {
+    // The window start moves with time, so the options are resolved every time
+    const options = getLeaderboardOptions(game, mode, query);
+    const result = await findHighScores(game, mode, {
+      ...options,
+      limit: query.limit,
+    });
+    if (!result.success || !result.data) return;
+
+    const leaderboard = result.data.map(formatScore);
+    const formatted = JSON.stringify(leaderboard);
+    if (formatted !== board.sent) {
+      board.entries = result.data;
+      board.leaderboard = leaderboard;
+      board.sent = formatted;
+      board.senders.forEach((send) => send("leaderboard", leaderboard));
+    }
+  };
+
+  // Scores that cannot enter the top entries are skipped without a query (a
+  // run already listed can still drop out when its score is replaced)
+  const couldChange = (score: ScoreRecord) => {
+    if (score.mode !== mode) return false;
+    const { entries } = board;
+    const last = entries[entries.length - 1];
+    if (!last || entries.length < query.limit) return true;
+    if (entries.some((entry) => entry.run === score.run)) return true;
+    return getLeaderboardOptions(game, mode, query).order === "asc"
+      ? score.score <= last.score
+      : score.score >= last.score;
+  };
+
+  // Refreshes run one at a time, in the order scores arrive
+  board.refreshing = refresh();
+  board.unsubscribe = subscribeScores(game, (score) => {
+    if (couldChange(score)) {
+      board.refreshing = board.refreshing.then(refresh);
+    }
+  });
+  return board;
+};
+
+// Add a stream to the shared leaderboard of its query, sending it the current
+// entries right away when they are known (otherwise the first refresh sends
+// them). Returns the function removing it again.
+const watchLiveLeaderboard = (
+  game: string,
+  mode: string,
+  query: LiveLeaderboardQuery,
+  send: LiveSend
+) => {
+  const key = JSON.stringify([
+    game,
+    mode,
+    query.window,
+    query.timezone ?? null,
+    query.per_player ?? null,
+    query.order ?? null,
+    query.limit,
+  ]);
+  let board = liveLeaderboards.get(key);
+  if (!board) {
+    board = createLiveLeaderboard(game, mode, query);
+    liveLeaderboards.set(key, board);
+  } else if (board.leaderboard) {
+    send("leaderboard", board.leaderboard);
+  }
+  board.senders.add(send);
+
+  const watched = board;
+  return () => {
+    watched.senders.delete(send);
+    if (watched.senders.size === 0) {
+      watched.unsubscribe();
+      liveLeaderboards.delete(key);
+    }
+  };
+};
+
+// Live top entries of a leaderboard: sent when the stream opens, then again
+// whenever a new score changes them. Only Server-Sent Events are offered;
+// WebSocket is out of scope, since the stream is one-way and SSE works through
+// the existing HTTP stack, proxies and rate limits.
+const streamLeaderboard = async (req: Request, res: Response) => {
+  const { game, mode } = req.params;
+
+  if (!getSupportedGames().includes(game)) {
+    return res.status(400).json({
+      error: "Invalid game",
+      message: "Game is not supported",
+    });
+  }
+
+  if (!isModeAllowed(game, mode)) {
+    return res.status(400).json({
+      error: "Invalid mode",
+      message: "Mode is not supported for this game",
+    });
+  }
+
+  const validationResult = await validateInput<LiveLeaderboardQuery>(
+    liveLeaderboardQuerySchema,
+    req.query
   );
 
   if (!validationResult.data) {
     const errors = formatValidationErrors(validationResult.error);
     return res.status(400).json({
-      error: "Invalid query data",
-      message: "Query validation failed",
+      error: "Invalid query parameters",
+      message: "Leaderboard query validation failed",
       details: errors,
     });
   }
 
-  const queryData = validationResult.data;
+  const query = validationResult.data;
+  const send = openLiveStream(req, res, "public");
+  if (!send) return;
+
+  res.on("close", watchLiveLeaderboard(game, mode, query, send));
+};
+
+// Player rank endpoint: a player's position on the board without the whole board
+const getPlayerRank = async (req: Request, res: Response) => {
+  const { game, mode } = req.params;
 
   // Validate game is supported
-  if (!getSupportedGames().includes(queryData.game)) {
+  if (!getSupportedGames().includes(game)) {
     return res.status(400).json({
       error: "Invalid game",
       message: "Game is not supported",
     });
   }
 
-  // Execute the analytics query
-  const result = await executeAnalyticsQuery(
-    queryData.game,
-    queryData.pipeline
+  if (!isModeAllowed(game, mode)) {
+    return res.status(400).json({
+      error: "Invalid mode",
+      message: "Mode is not supported for this game",
+    });
+  }
+
+  const validationResult = await validateInput<PlayerRankQuery>(
+    playerRankQuerySchema,
+    req.query
   );
-  if (!result.success) {
-    return res.status(500).json({
-      error: "Database error",
-      message: "Failed to execute analytics query",
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid query parameters",
+      message: "Player rank query validation failed",
+      details: errors,
     });
   }
 
-  res.json(result.data);
+  const { player, neighbors } = validationResult.data;
+
+  try {
+    const result = await findPlayerRank(game, mode, player, {
+      neighbors,
+      ...getLeaderboardOptions(game, mode, validationResult.data),
+    });
+    if (!result.success) {
+      console.error("Failed to fetch player rank:", result.error);
+      return res.status(500).json({
+        error: "Database error",
+        message: "Failed to fetch player rank",
+      });
+    }
+    if (!result.data) {
+      return res.status(404).json({
+        error: "Score not found",
+        message: "Player has no score on this leaderboard",
+      });
+    }
+
+    const { rank, total, percentile, entry, above, below } = result.data;
+    res.json({
+      rank,
+      total,
+      percentile,
+      entry: formatScore(entry),
+      above: above.map(formatScore),
+      below: below.map(formatScore),
+    });
+  } catch (error) {
+    console.error("Error fetching player rank:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: "Failed to fetch player rank",
+    });
+  }
 };
 
+// Rate limit targets: events count against their game and player, one token per event
+const getEventTargets = (req: Request): RateLimitTarget[] => {
+  const events: unknown[] = Array.isArray(req.body) ? req.body : [req.body];
+  const targets = new Map<string, RateLimitTarget>();
+
+  for (const event of events) {
+    const { game, player } = (event || {}) as Record<string, unknown>;
+    if (typeof game !== "string") continue;
+
+    const playerId = typeof player === "string" ? player : undefined;
+    const key = `${game}:${playerId}`;
+    const target = targets.get(key) || { game, player: playerId, cost: 0 };
+    target.cost++;
+    targets.set(key, target);
+  }
+
+  return [...targets.values()];
+};
+
+const getScoresTargets = (req: Request): RateLimitTarget[] => [
+  {
+    game: req.params.game,
+    player: typeof req.query.player === "string" ? req.query.player : undefined,
+    cost: 1,
+  },
+];
+
 export const createEventRoutes = () => {
   const router = express.Router();
 
-  router.post("/events", handleEvent);
-  router.get("/scores/:game/:mode", getHighScores);
+  const eventsLimit = rateLimit("events", getEventTargets);
+  const scoresLimit = rateLimit("scores", getScoresTargets);
 
-  router.post("/analytics/query", getAnalytics);
+  router.post("/events", eventsLimit, handleEvent);
+  router.post("/events/batch", eventsLimit, handleEventBatch);
+  router.get("/scores/:game/:mode", scoresLimit, getHighScores);
+  router.get("/scores/:game/:mode/rank", scoresLimit, getPlayerRank);
+  router.get("/scores/:game/:mode/live", scoresLimit, streamLeaderboard);
+  router.get(
+    "/events/:game/schemas",
+    requireRole("ingest", (req) => req.params.game),
+    listEventSchemas
+  );
 
   return router;
 };
@@ -0,0 +1,253 @@
+import { once } from "events";
+import { Request, Response } from "express";
+import { Document, FindCursor, ObjectId } from "mongodb";
+
+import { findEventsCursor, findScoresCursor, getSupportedGames } from "./db";
+import { ExportKind, ExportQuery, exportQuerySchema } from "./types";
+import { formatValidationErrors, validateInput } from "./validation";
+
+// Columns before the data columns, id first so a dropped CSV download can be
+// resumed from the id of its last row
+const EXPORT_COLUMNS: Record<ExportKind, string[]> = {
+  events: [
+    "id",
+    "event_id",
+    "mode",
+    "player",
+    "run",
+    "event_name",
+    "timestamp",
+  ],
+  scores: [
+    "id",
+    "event_id",
+    "mode",
+    "player",
+    "run",
+    "player_name",
+    "score",
+    "timestamp",
+    "hidden",
+  ],
+};
+
+// Data columns found by reading the data are capped, ask for columns explicitly
+// to export others
+const MAX_DATA_COLUMNS = 200;
+
+const isExportKind = (kind: string): kind is ExportKind =>
+  kind === "events" || kind === "scores";
+
+// Nested data fields become dot paths, arrays stay whole
+export const flattenData = (
+  data: Record<string, unknown>,
+  prefix: string = ""
+): Record<string, unknown> => {
+  return Object.entries(data || {}).reduce<Record<string, unknown>>(
+    (flat, [key, value]) => {
+      const path = `${prefix}${key}`;
+      if (
+        value &&
+        typeof value === "object" &&
+        !Array.isArray(value) &&
+        !(value instanceof Date)
+      ) {
+        Object.assign(
+          flat,
+          flattenData(value as Record<string, unknown>, `${path}.`)
+        );
+      } else {
+        flat[path] = value;
+      }
+      return flat;
+    },
+    {}
+  );
+};
+
+const toCsvValue = (value: unknown) => {
+  if (value === undefined || value === null) return "";
+  const text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsvRow = (values: unknown[]) =>
+  `${values.map(toCsvValue).join(",")}\n`;
+
+const getExportCursor = (
+  kind: ExportKind,
+  game: string,
+  filter: Document,
+  projection?: Document
+): FindCursor<Document> => {
+  const options = { sort: { _id: 1 as const }, projection };
+  return kind === "events"
+    ? findEventsCursor(game, filter, options)
+    : findScoresCursor(game, filter, options);
+};
+
+// Every data field (flattened) of the exported records, in order of appearance
+const findDataColumns = async (
+  kind: ExportKind,
+  game: string,
+  filter: Document
+) => {
+  const columns = new Set<string>();
+  const cursor = getExportCursor(kind, game, filter, { _id: 0, data: 1 });
+  try {
+    for await (const record of cursor) {
+      for (const column of Object.keys(flattenData(record.data))) {
+        if (columns.size >= MAX_DATA_COLUMNS) break;
+        columns.add(column);
+      }
+    }
+  } finally {
+    await cursor.close();
+  }
+  return [...columns];
+};
+
+const formatRecord = (kind: ExportKind, record: Document) => {
+  const { _id, data, ...fields } = record;
+  const formatted: Document = { id: String(_id) };
+  for (const column of EXPORT_COLUMNS[kind].slice(1)) {
+    if (fields[column] !== undefined) {
+      formatted[column] = fields[column];
+    }
+  }
+  return { fields: formatted, data: data || {} };
+};
+
+// Stream a game's events or scores as NDJSON or CSV, oldest first. Pass the id of
+// the last record received as ?after= to continue a dropped download.
+export const exportData = async (req: Request, res: Response) => {
+  const { game, kind } = req.params;
+  if (!isExportKind(kind)) {
+    return res.status(404).json({
+      error: "Not found",
+      message: "Only events and scores can be exported",
+    });
+  }
+
+  const validationResult = await validateInput<ExportQuery>(
+    exportQuerySchema,
+    req.query
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid query parameters",
+      message: "Query validation failed",
+      details: errors,
+    });
+  }
+
+  const query = validationResult.data;
+  if (!getSupportedGames().includes(game)) {
+    return res.status(400).json({
+      error: "Invalid game",
+      message: "Game is not supported",
+    });
+  }
+
+  const filter: Document = {};
+  if (query.mode) {
+    filter.mode = query.mode;
+  }
+  if (query.event_name && kind === "events") {
+    filter.event_name = query.event_name;
+  }
+  if (query.from || query.to) {
+    filter.timestamp = {
+      ...(query.from ? { $gte: query.from } : {}),
+      ...(query.to ? { $lt: query.to } : {}),
+    };
+  }
+  if (query.after) {
+    filter._id = { $gt: new ObjectId(query.after) };
+  }
+
+  let dataColumns: string[] = [];
+  if (query.format === "csv") {
+    try {
+      dataColumns =
+        query.columns ?? (await findDataColumns(kind, game, filter));
+    } catch (error) {
+      console.error(`Error reading export columns for ${game}:`, error);
+      return res.status(500).json({
+        error: "Database error",
+        message: "Failed to export data",
+      });
+    }
+  }
+
+  // Closing the response (a dropped download) stops the export, including a
+  // write waiting for a drain that will never come
+  const cursor = getExportCursor(kind, game, filter);
+  const controller = new AbortController();
+  res.on("close", () => {
+    controller.abort();
+    cursor.close().catch(() => undefined);
+  });
+
+  res.status(200);
+  res.setHeader(
+    "Content-Type",
+    query.format === "csv" ? "text/csv" : "application/x-ndjson"
+  );
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${game}_${kind}.${query.format}"`
+  );
+
+  const write = async (chunk: string) => {
+    // Wait for the client to catch up instead of buffering the export
+    if (!res.write(chunk)) {
+      await once(res, "drain", { signal: controller.signal });
+    }
+  };
+
+  try {
+    if (query.format === "csv") {
+      await write(
+        toCsvRow([
+          ...EXPORT_COLUMNS[kind],
+          ...dataColumns.map((column) => `data.${column}`),
+        ])
+      );
+    }
+
+    for await (const record of cursor) {
+      if (controller.signal.aborted) break;
+
+      const { fields, data } = formatRecord(kind, record);
+      if (query.format === "csv") {
+        const flat = flattenData(data);
+        await write(
+          toCsvRow([
+            ...EXPORT_COLUMNS[kind].map((column) => fields[column]),
+            ...dataColumns.map((column) => flat[column]),
+          ])
+        );
+      } else {
+        await write(`${JSON.stringify({ ...fields, data })}\n`);
+      }
+    }
+    res.end();
+  } catch (error) {
+    // Headers are sent by now, so the only way to report the error is to cut
+    // the download short (resume it with ?after=)
+    if (!controller.signal.aborted) {
+      console.error(`Error exporting ${kind} for ${game}:`, error);
+      res.destroy(error instanceof Error ? error : undefined);
+    }
+  } finally {
+    await cursor.close().catch(() => undefined);
+  }
+};
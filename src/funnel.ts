@@ -0,0 +1,194 @@
+import { Request, Response } from "express";
+import { Filter } from "mongodb";
+
+import { getQueryTimeBudget } from "./analytics";
+import { getGrant, hasAccess } from "./auth";
+import {
+  findEventsCursor,
+  getSupportedGames,
+  isMaxTimeExpiredError,
+} from "./db";
+import {
+  EventRecord,
+  FunnelQuery,
+  funnelQuerySchema,
+  FunnelStep,
+  FunnelStepResult,
+} from "./types";
+import { formatValidationErrors, validateInput } from "./validation";
+
+// The fields of an event a funnel looks at
+export type FunnelEvent = Pick<
+  EventRecord,
+  "event_name" | "data" | "timestamp"
+>;
+
+export const matchesStep = (event: FunnelEvent, step: FunnelStep) => {
+  return (
+    event.event_name === step.event_name &&
+    Object.entries(step.data || {}).every(
+      ([key, value]) => event.data?.[key] === value
+    )
+  );
+};
+
+// How many steps of the funnel one player's (or run's) events reach, in order and
+// within the window of a first step. Every first step is tried, the best counts.
+export const getFunnelDepth = (
+  events: FunnelEvent[],
+  steps: FunnelStep[],
+  windowMs: number
+) => {
+  let best = 0;
+
+  for (let start = 0; start < events.length && best < steps.length; start++) {
+    if (!matchesStep(events[start], steps[0])) continue;
+
+    const deadline = events[start].timestamp.getTime() + windowMs;
+    let depth = 1;
+    for (let i = start + 1; i < events.length && depth < steps.length; i++) {
+      if (events[i].timestamp.getTime() > deadline) break;
+      if (matchesStep(events[i], steps[depth])) depth++;
+    }
+    best = Math.max(best, depth);
+  }
+
+  return best;
+};
+
+// Per-step counts and drop-off from the depth each player (or run) reached
+export const summarizeFunnel = (
+  depths: number[],
+  steps: FunnelStep[]
+): FunnelStepResult[] => {
+  const reached = steps.map(
+    (_, step) => depths.filter((depth) => depth > step).length
+  );
+  const rate = (count: number, total: number) =>
+    total > 0 ? count / total : 0;
+
+  return steps.map((step, index) => ({
+    step: index,
+    event_name: step.event_name,
+    count: reached[index],
+    conversion_rate: rate(reached[index], reached[0]),
+    step_conversion_rate:
+      index === 0 ? 1 : rate(reached[index], reached[index - 1]),
+    drop_off: index === 0 ? 0 : reached[index - 1] - reached[index],
+  }));
+};
+
+// Only events that match some step are read
+const getFunnelFilter = (query: FunnelQuery): Filter<EventRecord> => {
+  const filter: Filter<EventRecord> = {
+    timestamp: { $gte: query.from, $lte: query.to ?? new Date() },
+    $or: query.steps.map((step) => ({
+      event_name: step.event_name,
+      ...Object.fromEntries(
+        Object.entries(step.data || {}).map(([key, value]) => [
+          `data.${key}`,
+          value,
+        ])
+      ),
+    })),
+  };
+  if (query.mode) {
+    filter.mode = query.mode;
+  }
+  if (query.group_by === "run") {
+    filter.run = { $exists: true };
+  }
+  return filter;
+};
+
+export const getFunnel = async (req: Request, res: Response) => {
+  const validationResult = await validateInput<FunnelQuery>(
+    funnelQuerySchema,
+    req.body
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid query data",
+      message: "Query validation failed",
+      details: errors,
+    });
+  }
+
+  const query = validationResult.data;
+  if (!getSupportedGames().includes(query.game)) {
+    return res.status(400).json({
+      error: "Invalid game",
+      message: "Game is not supported",
+    });
+  }
+
+  const groupBy = query.group_by;
+  const dataFields = [
+    ...new Set(query.steps.flatMap((step) => Object.keys(step.data || {}))),
+  ];
+  const maxTimeMS = getQueryTimeBudget(
+    hasAccess(getGrant(res), "admin", query.game)
+  );
+  const cursor = findEventsCursor(query.game, getFunnelFilter(query), {
+    sort: { [groupBy]: 1, timestamp: 1 },
+    projection: {
+      _id: 0,
+      [groupBy]: 1,
+      event_name: 1,
+      timestamp: 1,
+      ...Object.fromEntries(dataFields.map((field) => [`data.${field}`, 1])),
+    },
+    maxTimeMS,
+    allowDiskUse: true,
+  });
+
+  // Stop reading events if the client disconnects
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      cursor.close().catch(() => undefined);
+    }
+  });
+
+  // Events arrive grouped by player (or run), so only one group is held at a time
+  const windowMs = query.window_minutes * 60000;
+  const depths: number[] = [];
+  let group: FunnelEvent[] = [];
+  let groupKey: unknown;
+
+  try {
+    for await (const event of cursor) {
+      if (event[groupBy] !== groupKey && group.length > 0) {
+        depths.push(getFunnelDepth(group, query.steps, windowMs));
+        group = [];
+      }
+      groupKey = event[groupBy];
+      group.push(event);
+    }
+    if (group.length > 0) {
+      depths.push(getFunnelDepth(group, query.steps, windowMs));
+    }
+  } catch (error) {
+    if (res.writableEnded || res.destroyed) {
+      return;
+    }
+    if (isMaxTimeExpiredError(error)) {
+      return res.status(504).json({
+        error: "Query timeout",
+        message: `Funnel exceeded its time limit of ${maxTimeMS}ms`,
+      });
+    }
+    console.error(`Error computing funnel for ${query.game}:`, error);
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to compute funnel",
+    });
+  }
+
+  res.json({
+    group_by: groupBy,
+    window_minutes: query.window_minutes,
+    steps: summarizeFunnel(depths, query.steps),
+  });
+};
@@ -0,0 +1,249 @@
+import express, { Request, Response } from "express";
+
+import { getGrant, hasAccess, requireRole } from "./auth";
+import {
+  createApiKey,
+  findApiKeys,
+  findGame,
+  findGames,
+  getGameConfig,
+  registerGame,
+  revokeApiKey,
+  updateGame,
+} from "./db";
+import {
+  ApiKeyRecord,
+  CreateApiKeyInput,
+  createApiKeySchema,
+  CreateGameInput,
+  createGameSchema,
+  UpdateGameInput,
+  updateGameSchema,
+} from "./types";
+import { formatValidationErrors, validateInput } from "./validation";
+import { createFlaggedScoreRoutes } from "./scores";
+import { createModerationRoutes } from "./moderation";
+import { createPlayerAdminRoutes } from "./players";
+import { createEventSchemaRoutes } from "./eventSchemas";
+import { createRetentionRoutes } from "./dataRetention";
+import { createWebhookRoutes } from "./webhooks";
+
+const createGame = async (req: Request, res: Response) => {
+  const validationResult = await validateInput<CreateGameInput>(
+    createGameSchema,
+    req.body
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid game data",
+      message: "Game validation failed",
+      details: errors,
+    });
+  }
+
+  const gameData = validationResult.data;
+
+  const existing = await findGame(gameData.name);
+  if (!existing.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to register game",
+    });
+  }
+  if (existing.data) {
+    return res.status(409).json({
+      error: "Game exists",
+      message: "A game with this name is already registered",
+    });
+  }
+
+  const result = await registerGame(gameData);
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to register game",
+    });
+  }
+
+  res.status(201).json(result.data);
+};
+
+const listGames = async (req: Request, res: Response) => {
+  const result = await findGames();
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to fetch games",
+    });
+  }
+
+  // Admins scoped to some games only see those games
+  const grant = getGrant(res);
+  res.json(
+    (result.data || []).filter((game) => hasAccess(grant, "admin", game.name))
+  );
+};
+
+const modifyGame = async (req: Request, res: Response) => {
+  const validationResult = await validateInput<UpdateGameInput>(
+    updateGameSchema,
+    req.body
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid game data",
+      message: "Game validation failed",
+      details: errors,
+    });
+  }
+
+  const result = await updateGame(req.params.game, validationResult.data);
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to update game",
+    });
+  }
+  if (!result.data) {
+    return res.status(404).json({
+      error: "Game not found",
+      message: "No game is registered with this name",
+    });
+  }
+
+  res.json(result.data);
+};
+
+// Archived games stop accepting events but keep their data
+const archiveGame = async (req: Request, res: Response) => {
+  const result = await updateGame(req.params.game, { archived: true });
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to archive game",
+    });
+  }
+  if (!result.data) {
+    return res.status(404).json({
+      error: "Game not found",
+      message: "No game is registered with this name",
+    });
+  }
+
+  res.json(result.data);
+};
+
+// Only show the end of a key when listing, the full key is returned once on creation
+const maskApiKey = (apiKey: ApiKeyRecord) => ({
+  key_id: apiKey.key_id,
+  game: apiKey.game,
+  key: `...${apiKey.key.slice(-4)}`,
+  label: apiKey.label,
+  created_at: apiKey.created_at,
+  revoked_at: apiKey.revoked_at,
+});
+
+const createGameApiKey = async (req: Request, res: Response) => {
+  const { game } = req.params;
+
+  if (!getGameConfig(game)) {
+    return res.status(404).json({
+      error: "Game not found",
+      message: "No game is registered with this name",
+    });
+  }
+
+  const validationResult = await validateInput<CreateApiKeyInput>(
+    createApiKeySchema,
+    req.body || {}
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid API key data",
+      message: "API key validation failed",
+      details: errors,
+    });
+  }
+
+  const result = await createApiKey(game, validationResult.data.label);
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to create API key",
+    });
+  }
+
+  res.status(201).json(result.data);
+};
+
+const listGameApiKeys = async (req: Request, res: Response) => {
+  const result = await findApiKeys(req.params.game);
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to fetch API keys",
+    });
+  }
+
+  res.json((result.data || []).map(maskApiKey));
+};
+
+const revokeGameApiKey = async (req: Request, res: Response) => {
+  const { game, keyId } = req.params;
+
+  const result = await revokeApiKey(game, keyId);
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to revoke API key",
+    });
+  }
+  if (!result.data) {
+    return res.status(404).json({
+      error: "API key not found",
+      message: "No active API key with this id exists for the game",
+    });
+  }
+
+  res.json(maskApiKey(result.data));
+};
+
+export const createGameRoutes = () => {
+  const router = express.Router();
+
+  // Registering games needs an admin of every game, the rest an admin of the game
+  const requireAdmin = requireRole("admin");
+  const requireGameAdmin = requireRole("admin", (req) => req.params.game);
+
+  router.post("/", requireAdmin, createGame);
+  router.get("/", requireRole("admin", "any"), listGames);
+  router.patch("/:game", requireGameAdmin, modifyGame);
+  router.delete("/:game", requireGameAdmin, archiveGame);
+
+  router.post("/:game/keys", requireGameAdmin, createGameApiKey);
+  router.get("/:game/keys", requireGameAdmin, listGameApiKeys);
+  router.delete("/:game/keys/:keyId", requireGameAdmin, revokeGameApiKey);
+
+  router.use(
+    "/:game/flagged-scores",
+    requireGameAdmin,
+    createFlaggedScoreRoutes()
+  );
+  router.use("/:game/players", requireGameAdmin, createPlayerAdminRoutes());
+  router.use(
+    "/:game/event-schemas",
+    requireGameAdmin,
+    createEventSchemaRoutes()
+  );
+  router.use("/:game/retention", requireGameAdmin, createRetentionRoutes());
+  router.use("/:game/webhooks", requireGameAdmin, createWebhookRoutes());
+  router.use("/:game", requireGameAdmin, createModerationRoutes());
+
+  return router;
+};
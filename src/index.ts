@@ -1,5 +1,9 @@
 import { createApp, startServer } from "./app";
 import { connectDB } from "./db";
+import { scheduleRetentionPurge } from "./dataRetention";
+import { watchLiveChanges } from "./live";
+import { scheduleWebhookDeliveries } from "./webhooks";
+import { scheduleViewRefresh } from "./views";
 import dotenv from "dotenv";
 
 // Load environment variables
@@ -15,6 +19,10 @@ if (!MONGO_URI) {
 
 const start = async () => {
   await connectDB(MONGO_URI);
+  scheduleViewRefresh();
+  scheduleRetentionPurge();
+  watchLiveChanges();
+  scheduleWebhookDeliveries();
   await startServer(await createApp(), PORT);
 };
 
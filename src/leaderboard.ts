@@ -0,0 +1,131 @@
+import { ObjectId } from "mongodb";
+
+import { LeaderboardCursor, LeaderboardWindow, ScoreRecord } from "./types";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Wall-clock date and time of an instant in a time zone
+const getZonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date);
+
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: value("year"),
+    month: value("month"),
+    day: value("day"),
+    hour: value("hour"),
+    minute: value("minute"),
+    second: value("second"),
+  };
+};
+
+// Offset of a time zone from UTC at an instant, in milliseconds
+export const getTimeZoneOffset = (date: Date, timeZone: string) => {
+  const parts = getZonedParts(date, timeZone);
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// Instant of midnight on a calendar date in a time zone
+const getZonedMidnight = (
+  year: number,
+  month: number,
+  day: number,
+  timeZone: string
+) => {
+  const midnightUtc = Date.UTC(year, month - 1, day);
+  const guess =
+    midnightUtc - getTimeZoneOffset(new Date(midnightUtc), timeZone);
+  // Recompute with the offset at the guess in case a DST change happened in between
+  return new Date(midnightUtc - getTimeZoneOffset(new Date(guess), timeZone));
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// Start of the leaderboard window containing `now` (undefined for all-time boards).
+// Weeks start on weekStart (0 = Sunday) and all boundaries are midnight in timeZone.
+export const getWindowStart = (
+  window: LeaderboardWindow,
+  now: Date,
+  timeZone: string = "UTC",
+  weekStart: number = 1
+): Date | undefined => {
+  if (window === "all-time") {
+    return undefined;
+  }
+
+  const { year, month, day } = getZonedParts(now, timeZone);
+
+  if (window === "monthly") {
+    return getZonedMidnight(year, month, 1, timeZone);
+  }
+
+  if (window === "weekly") {
+    const today = new Date(Date.UTC(year, month - 1, day));
+    const daysSinceWeekStart = (today.getUTCDay() - weekStart + 7) % 7;
+    const firstDay = new Date(
+      today.getTime() - daysSinceWeekStart * MS_PER_DAY
+    );
+    return getZonedMidnight(
+      firstDay.getUTCFullYear(),
+      firstDay.getUTCMonth() + 1,
+      firstDay.getUTCDate(),
+      timeZone
+    );
+  }
+
+  return getZonedMidnight(year, month, day, timeZone);
+};
+
+// Opaque cursor pointing at a leaderboard entry
+export const encodeLeaderboardCursor = (score: ScoreRecord) => {
+  return Buffer.from(
+    JSON.stringify([score.score, score.timestamp.getTime(), String(score._id)])
+  ).toString("base64url");
+};
+
+export const decodeLeaderboardCursor = (
+  value: string
+): LeaderboardCursor | undefined => {
+  try {
+    const [score, timestamp, id] = JSON.parse(
+      Buffer.from(value, "base64url").toString()
+    );
+    if (
+      typeof score !== "number" ||
+      typeof timestamp !== "number" ||
+      typeof id !== "string" ||
+      !ObjectId.isValid(id)
+    ) {
+      return undefined;
+    }
+    return { score, timestamp: new Date(timestamp), id: new ObjectId(id) };
+  } catch (error) {
+    return undefined;
+  }
+};
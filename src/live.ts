@@ -0,0 +1,247 @@
+import { EventEmitter } from "events";
+import { Request, Response } from "express";
+import {
+  ChangeStream,
+  ChangeStreamInsertDocument,
+  Document,
+  ResumeToken,
+} from "mongodb";
+
+import {
+  getDB,
+  getEventsCollectionName,
+  getRegisteredGames,
+  getScoresCollectionName,
+  getSupportedGames,
+} from "./db";
+import {
+  EventRecord,
+  LiveEventsQuery,
+  liveEventsQuerySchema,
+  ScoreRecord,
+} from "./types";
+import { formatValidationErrors, validateInput } from "./validation";
+
+// Live streams open at once, over every game. Public leaderboard streams have
+// their own limits, so anonymous clients cannot use up the analytics streams.
+const MAX_LIVE_STREAMS = Number(process.env.MAX_LIVE_STREAMS) || 200;
+const MAX_PUBLIC_LIVE_STREAMS =
+  Number(process.env.MAX_PUBLIC_LIVE_STREAMS) || 1000;
+
+// Public live streams one IP can keep open
+const MAX_PUBLIC_LIVE_STREAMS_PER_IP = 5;
+
+// Comment sent on idle streams so that proxies do not close them
+const LIVE_HEARTBEAT_MS = 15000;
+
+// A client this far behind is disconnected instead of buffered for
+const MAX_LIVE_BUFFER_BYTES = 1024 * 1024;
+
+// Wait before reopening a change stream that failed
+const CHANGE_STREAM_RETRY_MS = 5000;
+
+// New events and scores are published on an in-process bus, which is enough
+// for a single server instance. With LIVE_CHANGE_STREAMS=true the bus is fed
+// from MongoDB change streams instead (this needs a replica set), so that
+// subscribers also see what other instances record.
+const useChangeStreams = () => process.env.LIVE_CHANGE_STREAMS === "true";
+
+const bus = new EventEmitter();
+// Every open stream (or shared leaderboard) adds a listener
+bus.setMaxListeners(0);
+
+// Who may open a live stream: authenticated callers, or anyone (leaderboards)
+export type LiveStreamAccess = "authenticated" | "public";
+
+// Sends one message on a live stream
+export type LiveSend = (event: string, data: unknown) => void;
+
+const openStreams: Record<LiveStreamAccess, number> = {
+  authenticated: 0,
+  public: 0,
+};
+const publicStreamsByIp = new Map<string, number>();
+
+let changeStream:
+  ChangeStream<Document, ChangeStreamInsertDocument> | undefined;
+let resumeToken: ResumeToken | undefined;
+
+const emitEvent = (event: EventRecord) =>
+  bus.emit(`events:${event.game}`, event);
+
+const emitScore = (score: ScoreRecord) =>
+  bus.emit(`scores:${score.game}`, score);
+
+// Publish newly recorded events (never the same event twice)
+export const publishEvents = (events: EventRecord[]) => {
+  if (!useChangeStreams()) {
+    events.forEach(emitEvent);
+  }
+};
+
+// Publish a score that reached the leaderboard
+export const publishScore = (score: ScoreRecord) => {
+  if (!useChangeStreams()) {
+    emitScore(score);
+  }
+};
+
+export const subscribeScores = (
+  game: string,
+  listener: (score: ScoreRecord) => void
+) => {
+  bus.on(`scores:${game}`, listener);
+  return () => {
+    bus.off(`scores:${game}`, listener);
+  };
+};
+
+const subscribeEvents = (
+  game: string,
+  listener: (event: EventRecord) => void
+) => {
+  bus.on(`events:${game}`, listener);
+  return () => {
+    bus.off(`events:${game}`, listener);
+  };
+};
+
+// Feed the bus from inserts into the events and scores collections of every
+// game, resuming after the last change seen when the stream has to be reopened
+export const watchLiveChanges = () => {
+  if (!useChangeStreams() || changeStream) return;
+
+  const stream = getDB().watch<Document, ChangeStreamInsertDocument>(
+    [{ $match: { operationType: "insert" } }],
+    resumeToken ? { resumeAfter: resumeToken } : {}
+  );
+  changeStream = stream;
+
+  stream.on("change", (change) => {
+    resumeToken = change._id;
+    const collection = change.ns.coll;
+    for (const game of getRegisteredGames()) {
+      if (collection === getEventsCollectionName(game)) {
+        emitEvent(change.fullDocument as EventRecord);
+      } else if (collection === getScoresCollectionName(game)) {
+        emitScore(change.fullDocument as ScoreRecord);
+      }
+    }
+  });
+
+  stream.on("error", (error) => {
+    console.error("Live change stream failed, reopening it:", error);
+    changeStream = undefined;
+    stream.close().catch(() => undefined);
+    setTimeout(watchLiveChanges, CHANGE_STREAM_RETRY_MS).unref();
+  });
+};
+
+// Start a Server-Sent Events response and return a function sending one
+// message on it (undefined when too many streams are open, the request is
+// answered with 503, or 429 for an IP over its share of public streams).
+// Callers unsubscribe from the bus when it closes.
+export const openLiveStream = (
+  req: Request,
+  res: Response,
+  access: LiveStreamAccess
+): LiveSend | undefined => {
+  const maxStreams =
+    access === "public" ? MAX_PUBLIC_LIVE_STREAMS : MAX_LIVE_STREAMS;
+  if (openStreams[access] >= maxStreams) {
+    res.status(503).json({
+      error: "Too many streams",
+      message: "Too many live streams are open, try again later",
+    });
+    return undefined;
+  }
+
+  const ip = req.ip ?? "";
+  const ipStreams = publicStreamsByIp.get(ip) ?? 0;
+  if (access === "public" && ipStreams >= MAX_PUBLIC_LIVE_STREAMS_PER_IP) {
+    res.status(429).json({
+      error: "Too many streams",
+      message: "Too many live streams are open from this address",
+    });
+    return undefined;
+  }
+
+  openStreams[access]++;
+  if (access === "public") {
+    publicStreamsByIp.set(ip, ipStreams + 1);
+  }
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.flushHeaders();
+
+  const heartbeat = setInterval(
+    () => res.write(": ping\n\n"),
+    LIVE_HEARTBEAT_MS
+  );
+  res.on("close", () => {
+    openStreams[access]--;
+    if (access === "public") {
+      const remaining = publicStreamsByIp.get(ip)! - 1;
+      if (remaining > 0) {
+        publicStreamsByIp.set(ip, remaining);
+      } else {
+        publicStreamsByIp.delete(ip);
+      }
+    }
+    clearInterval(heartbeat);
+  });
+
+  return (event: string, data: unknown) => {
+    if (res.destroyed) return;
+    if (res.writableLength > MAX_LIVE_BUFFER_BYTES) {
+      res.destroy();
+      return;
+    }
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+};
+
+const formatLiveEvent = ({ _id, ...event }: EventRecord) => event;
+
+// Events of a game as they are recorded, optionally only those of an event
+// name, mode or player
+export const streamEvents = async (req: Request, res: Response) => {
+  const validationResult = await validateInput<LiveEventsQuery>(
+    liveEventsQuerySchema,
+    req.query
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid query parameters",
+      message: "Query validation failed",
+      details: errors,
+    });
+  }
+
+  const query = validationResult.data;
+  if (!getSupportedGames().includes(query.game)) {
+    return res.status(400).json({
+      error: "Invalid game",
+      message: "Game is not supported",
+    });
+  }
+
+  const send = openLiveStream(req, res, "authenticated");
+  if (!send) return;
+
+  const unsubscribe = subscribeEvents(query.game, (event) => {
+    if (
+      (query.event_name && event.event_name !== query.event_name) ||
+      (query.mode && event.mode !== query.mode) ||
+      (query.player && event.player !== query.player)
+    ) {
+      return;
+    }
+    send("event", formatLiveEvent(event));
+  });
+  res.on("close", unsubscribe);
+};
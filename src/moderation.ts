@@ -0,0 +1,221 @@
+import express, { Request, Response } from "express";
+import { ObjectId } from "mongodb";
+
+import {
+  banPlayer,
+  findPlayerBans,
+  getGameConfig,
+  setScoreHidden,
+  unbanPlayer,
+} from "./db";
+import {
+  BanPlayerInput,
+  banPlayerSchema,
+  HideScoreInput,
+  hideScoreSchema,
+} from "./types";
+import { formatValidationErrors, validateInput } from "./validation";
+
+// Characters commonly used to dodge word filters, mapped to the letter they stand for
+const LOOKALIKES: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "!": "i",
+  "|": "i",
+  "3": "e",
+  "4": "a",
+  "@": "a",
+  "5": "s",
+  $: "s",
+  "7": "t",
+  "+": "t",
+  "8": "b",
+  "9": "g",
+};
+
+// Lowercase letters of a name with accents, lookalikes and separators removed,
+// plus the position (in code points) in the original name each letter came from.
+// Names are read by code point so that styled letters outside the BMP (such as
+// mathematical bold) are matched, and a character NFKD expands into several
+// letters (such as "ﬀ") gives one position per letter.
+export const normalizeName = (name: string) => {
+  let text = "";
+  const positions: number[] = [];
+
+  Array.from(name).forEach((char, index) => {
+    for (const part of char.normalize("NFKD").toLowerCase()) {
+      const letter = (LOOKALIKES[part] || part).replace(/[^a-z]/g, "");
+      if (letter) {
+        text += letter;
+        positions.push(index);
+      }
+    }
+  });
+
+  return { text, positions };
+};
+
+// Blocked words (from the BLOCKED_WORDS env variable and the game's settings)
+const getBlockedWords = (game: string) => {
+  const globalWords = (process.env.BLOCKED_WORDS || "").split(",");
+  const gameWords = getGameConfig(game)?.moderation?.blocked_words || [];
+  return [...globalWords, ...gameWords]
+    .map((word) => normalizeName(word).text)
+    .filter((word) => word.length > 0);
+};
+
+// Mask every blocked word found in a name, returning undefined when the name is clean
+export const maskBlockedWords = (
+  name: string,
+  blockedWords: string[]
+): string | undefined => {
+  const { text, positions } = normalizeName(name);
+  const masked = Array.from(name);
+  let found = false;
+
+  for (const word of blockedWords) {
+    let start = text.indexOf(word);
+    while (start !== -1) {
+      found = true;
+      const from = positions[start];
+      const to = positions[start + word.length - 1];
+      for (let index = from; index <= to; index++) {
+        masked[index] = "*";
+      }
+      start = text.indexOf(word, start + 1);
+    }
+  }
+
+  return found ? masked.join("") : undefined;
+};
+
+// Check a player name against the game's moderation settings. Returns the name
+// to store, or undefined when the game rejects names with blocked words.
+export const moderatePlayerName = (
+  game: string,
+  name: string
+): string | undefined => {
+  const masked = maskBlockedWords(name, getBlockedWords(game));
+  if (!masked) {
+    return name;
+  }
+
+  const action = getGameConfig(game)?.moderation?.action || "mask";
+  return action === "reject" ? undefined : masked;
+};
+
+const hideScore = async (req: Request, res: Response) => {
+  const { game, scoreId } = req.params;
+
+  if (!ObjectId.isValid(scoreId)) {
+    return res.status(400).json({
+      error: "Invalid score id",
+      message: "Score id is not valid",
+    });
+  }
+
+  const validationResult = await validateInput<HideScoreInput>(
+    hideScoreSchema,
+    req.body
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid score data",
+      message: "Score validation failed",
+      details: errors,
+    });
+  }
+
+  const result = await setScoreHidden(
+    game,
+    new ObjectId(scoreId),
+    validationResult.data.hidden
+  );
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to update score",
+    });
+  }
+  if (!result.data) {
+    return res.status(404).json({
+      error: "Score not found",
+      message: "No score exists with this id",
+    });
+  }
+
+  res.json(result.data);
+};
+
+const listBans = async (req: Request, res: Response) => {
+  const result = await findPlayerBans(req.params.game);
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to fetch bans",
+    });
+  }
+
+  res.json(result.data);
+};
+
+const createBan = async (req: Request, res: Response) => {
+  const validationResult = await validateInput<BanPlayerInput>(
+    banPlayerSchema,
+    req.body
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid ban data",
+      message: "Ban validation failed",
+      details: errors,
+    });
+  }
+
+  const { player, reason } = validationResult.data;
+  const result = await banPlayer(req.params.game, player, reason);
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to ban player",
+    });
+  }
+
+  res.status(201).json(result.data);
+};
+
+const removeBan = async (req: Request, res: Response) => {
+  const { game, player } = req.params;
+
+  const result = await unbanPlayer(game, player);
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to remove ban",
+    });
+  }
+  if (!result.data) {
+    return res.status(404).json({
+      error: "Ban not found",
+      message: "Player is not banned",
+    });
+  }
+
+  res.json({ message: "Ban removed" });
+};
+
+// Admin routes for hiding leaderboard entries and banning players from leaderboards
+export const createModerationRoutes = () => {
+  const router = express.Router({ mergeParams: true });
+
+  router.patch("/scores/:scoreId", hideScore);
+  router.get("/bans", listBans);
+  router.post("/bans", createBan);
+  router.delete("/bans/:player", removeBan);
+
+  return router;
+};
@@ -0,0 +1,442 @@
+import { Document } from "mongodb";
+
+import { SavedQueryParam, SavedQueryParamType } from "./types";
+
+// Safe MongoDB query execution
+const ALLOWED_OPERATIONS = [
+  "$match",
+  "$group",
+  "$sort",
+  "$limit",
+  "$project",
+  "$lookup",
+  "$unwind",
+  "$addFields",
+  "$set",
+  "$count",
+];
+
+// Filter out dangerous operations like $out, $merge, $geoNear, $text
+const DANGEROUS_OPERATIONS = [
+  "$out",
+  "$merge",
+  "$geoNear",
+  "$text",
+  "$indexStats",
+  "$collStats",
+  "$currentOp",
+  "$listLocalSessions",
+];
+
+// Expressions that run arbitrary JavaScript on the server, refused anywhere in a stage
+const FORBIDDEN_EXPRESSIONS = ["$function", "$where", "$accumulator"];
+
+// Maximum pipeline stages to prevent overly complex queries
+const MAX_PIPELINE_STAGES = 10;
+
+// Maximum limit value to prevent memory issues
+const MAX_LIMIT = 1000;
+
+// Maximum group size to prevent memory issues
+const MAX_GROUP_SIZE = 10000;
+
+// Maximum sort fields to prevent memory issues
+const MAX_SORT_FIELDS = 5;
+
+// Limit added to $lookup pipelines to prevent cartesian products
+const MAX_LOOKUP_RESULTS = 1000;
+
+// A stage the server refused, and why
+export interface PipelineRejection {
+  stage: number;
+  operator: string;
+  reason: string;
+}
+
+// Something the server changed in the pipeline before running it
+export interface PipelineChange {
+  stage?: number;
+  change: string;
+}
+
+export interface PipelineValidation {
+  pipeline: Document[];
+  rejections: PipelineRejection[];
+  changes: PipelineChange[];
+}
+
+export interface PipelineOptions {
+  // Lenient mode drops or clamps refused stages instead of rejecting the query
+  lenient?: boolean;
+  // Collections $lookup stages may read (any collection when omitted)
+  readableCollections?: string[];
+}
+
+const getOperator = (stage: unknown) => {
+  return stage && typeof stage === "object" && !Array.isArray(stage)
+    ? Object.keys(stage)
+    : [];
+};
+
+// Paths to forbidden expressions anywhere inside a value
+const findForbiddenExpressions = (value: unknown, path: string): string[] => {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) =>
+      findForbiddenExpressions(item, `${path}.${index}`)
+    );
+  }
+  if (!value || typeof value !== "object") {
+    return [];
+  }
+
+  return Object.entries(value).flatMap(([key, child]) => [
+    ...(FORBIDDEN_EXPRESSIONS.includes(key) ? [`${path}.${key}`] : []),
+    ...findForbiddenExpressions(child, `${path}.${key}`),
+  ]);
+};
+
+// Problems with the stages of a $lookup pipeline (and lookups nested in it)
+const checkLookupPipeline = (
+  pipeline: unknown,
+  options: PipelineOptions
+): string[] => {
+  if (pipeline === undefined) {
+    return [];
+  }
+  if (!Array.isArray(pipeline)) {
+    return ["$lookup.pipeline must be an array"];
+  }
+
+  return pipeline.flatMap((stage) => {
+    const [operator] = getOperator(stage);
+    if (DANGEROUS_OPERATIONS.includes(operator)) {
+      return [`${operator} is not allowed inside $lookup.pipeline`];
+    }
+    if (!ALLOWED_OPERATIONS.includes(operator)) {
+      return [
+        `Unknown or unsupported operator ${operator} in $lookup.pipeline`,
+      ];
+    }
+    return operator === "$lookup" ? checkLookup(stage.$lookup, options) : [];
+  });
+};
+
+// Problems with a $lookup stage: the collection it reads and its pipeline
+const checkLookup = (lookup: Document, options: PipelineOptions): string[] => {
+  const problems: string[] = [];
+  if (
+    lookup.from !== undefined &&
+    options.readableCollections &&
+    !options.readableCollections.includes(String(lookup.from))
+  ) {
+    problems.push(`Lookup into ${lookup.from} is not allowed`);
+  }
+  return [...problems, ...checkLookupPipeline(lookup.pipeline, options)];
+};
+
+// Check an analytics pipeline against the allowed operators and limits. In strict
+// mode (the default) every refused stage is reported as a rejection; in lenient
+// mode refused stages are dropped or clamped and reported as changes instead.
+// Safety limits the server adds itself are always reported as changes.
+export const validatePipeline = (
+  pipeline: Document[],
+  options: PipelineOptions = {}
+): PipelineValidation => {
+  const sanitizedPipeline: Document[] = [];
+  const rejections: PipelineRejection[] = [];
+  const changes: PipelineChange[] = [];
+  let hasLimit = false;
+
+  // Refuse a stage (dropping it, or replacing it in lenient mode)
+  const refuse = (
+    stage: number,
+    operator: string,
+    reason: string,
+    replacement?: Document
+  ) => {
+    if (!options.lenient) {
+      rejections.push({ stage, operator, reason });
+      return;
+    }
+
+    if (replacement) {
+      sanitizedPipeline.push(replacement);
+      changes.push({ stage, change: `Replaced ${operator} stage: ${reason}` });
+    } else {
+      changes.push({ stage, change: `Removed ${operator} stage: ${reason}` });
+    }
+  };
+
+  for (let i = 0; i < pipeline.length; i++) {
+    const stage = pipeline[i];
+    const operators = getOperator(stage);
+    const operator = operators[0] || "";
+
+    if (i >= MAX_PIPELINE_STAGES) {
+      refuse(
+        i,
+        operator,
+        `Pipeline exceeds the maximum of ${MAX_PIPELINE_STAGES} stages`
+      );
+      continue;
+    }
+
+    if (operators.length !== 1) {
+      refuse(i, operator, "Stage must have exactly one operator");
+      continue;
+    }
+
+    if (DANGEROUS_OPERATIONS.includes(operator)) {
+      refuse(i, operator, `Operator ${operator} is not allowed`);
+      continue;
+    }
+
+    if (!ALLOWED_OPERATIONS.includes(operator)) {
+      refuse(i, operator, `Unknown or unsupported operator ${operator}`);
+      continue;
+    }
+
+    const forbidden = findForbiddenExpressions(stage, "");
+    if (forbidden.length > 0) {
+      refuse(
+        i,
+        operator,
+        `Expression not allowed at ${forbidden
+          .map((path) => path.slice(1))
+          .join(", ")}`
+      );
+      continue;
+    }
+
+    // Special handling for $limit stage
+    if (operator === "$limit") {
+      const limitValue = stage.$limit;
+      if (typeof limitValue !== "number" || limitValue <= 0) {
+        refuse(i, operator, "$limit must be a positive number", {
+          $limit: MAX_LIMIT,
+        });
+      } else if (limitValue > MAX_LIMIT) {
+        refuse(i, operator, `$limit exceeds the maximum of ${MAX_LIMIT}`, {
+          $limit: MAX_LIMIT,
+        });
+      } else {
+        sanitizedPipeline.push(stage);
+      }
+      hasLimit = true;
+      continue;
+    }
+
+    // Special handling for $sort stage
+    if (operator === "$sort") {
+      const sortFields = Object.keys(stage.$sort || {});
+      if (sortFields.length > MAX_SORT_FIELDS) {
+        // Keep only the first sort fields
+        const limitedSort: Record<string, unknown> = {};
+        sortFields.slice(0, MAX_SORT_FIELDS).forEach((field) => {
+          limitedSort[field] = stage.$sort[field];
+        });
+        refuse(
+          i,
+          operator,
+          `$sort exceeds the maximum of ${MAX_SORT_FIELDS} fields`,
+          { $sort: limitedSort }
+        );
+      } else {
+        sanitizedPipeline.push(stage);
+      }
+      continue;
+    }
+
+    // Special handling for $group stage
+    if (operator === "$group") {
+      sanitizedPipeline.push(stage);
+      // Add $limit to group results if not present
+      if (!hasLimit) {
+        sanitizedPipeline.push({ $limit: MAX_GROUP_SIZE });
+        changes.push({
+          stage: i,
+          change: `Injected $limit: ${MAX_GROUP_SIZE} after $group`,
+        });
+        hasLimit = true;
+      }
+      continue;
+    }
+
+    // Special handling for $lookup stage (limit to prevent cartesian products)
+    if (operator === "$lookup") {
+      if (!stage.$lookup || typeof stage.$lookup !== "object") {
+        refuse(i, operator, "$lookup must be an object");
+        continue;
+      }
+
+      const problems = checkLookup(stage.$lookup, options);
+      if (problems.length > 0) {
+        refuse(i, operator, problems.join("; "));
+        continue;
+      }
+
+      const lookupPipeline: Document[] = stage.$lookup.pipeline || [];
+      const hasLookupLimit = lookupPipeline.some(
+        (lookupStage) => getOperator(lookupStage)[0] === "$limit"
+      );
+      if (hasLookupLimit) {
+        sanitizedPipeline.push(stage);
+      } else {
+        sanitizedPipeline.push({
+          $lookup: {
+            ...stage.$lookup,
+            pipeline: [...lookupPipeline, { $limit: MAX_LOOKUP_RESULTS }],
+          },
+        });
+        changes.push({
+          stage: i,
+          change: `Injected $limit: ${MAX_LOOKUP_RESULTS} into $lookup.pipeline`,
+        });
+      }
+      continue;
+    }
+
+    // Add all other valid stages
+    sanitizedPipeline.push(stage);
+  }
+
+  // Add automatic $limit if none specified to prevent runaway queries
+  if (!hasLimit) {
+    sanitizedPipeline.push({ $limit: MAX_LIMIT });
+    changes.push({ change: `Injected $limit: ${MAX_LIMIT} at the end` });
+  }
+
+  return { pipeline: sanitizedPipeline, rejections, changes };
+};
+
+// A parameter value that could not be bound
+export interface ParamError {
+  param: string;
+  reason: string;
+}
+
+const isParamPlaceholder = (value: unknown): value is { $param: string } => {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.keys(value).length === 1 &&
+    typeof (value as Document).$param === "string"
+  );
+};
+
+// Replace { $param: "name" } placeholders anywhere in a value
+const replaceParams = (
+  value: unknown,
+  replace: (name: string) => unknown
+): unknown => {
+  if (isParamPlaceholder(value)) {
+    return replace(value.$param);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => replaceParams(item, replace));
+  }
+  if (!value || typeof value !== "object" || value instanceof Date) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, child]) => [
+      key,
+      replaceParams(child, replace),
+    ])
+  );
+};
+
+// Names of the parameters a pipeline refers to
+export const findParamReferences = (pipeline: Document[]): string[] => {
+  const names = new Set<string>();
+  replaceParams(pipeline, (name) => names.add(name));
+  return [...names];
+};
+
+// Convert a supplied parameter value to its declared type. Strings starting
+// with "$" are refused, they would be read as field paths or operators.
+const coerceParam = (
+  type: SavedQueryParamType,
+  value: unknown
+): { value?: unknown; reason?: string } => {
+  switch (type) {
+    case "string":
+      if (typeof value !== "string") {
+        return { reason: "must be a string" };
+      }
+      return value.startsWith("$")
+        ? { reason: 'must not start with "$"' }
+        : { value };
+    case "number": {
+      const number = typeof value === "string" ? Number(value) : value;
+      return typeof number === "number" &&
+        Number.isFinite(number) &&
+        value !== ""
+        ? { value: number }
+        : { reason: "must be a number" };
+    }
+    case "boolean":
+      if (typeof value === "boolean") {
+        return { value };
+      }
+      return value === "true" || value === "false"
+        ? { value: value === "true" }
+        : { reason: "must be a boolean" };
+    case "date": {
+      const date =
+        typeof value === "string" || typeof value === "number"
+          ? new Date(value)
+          : null;
+      return date && !isNaN(date.getTime())
+        ? { value: date }
+        : { reason: "must be a date" };
+    }
+  }
+};
+
+// Substitute typed parameter values (or their defaults) into a saved pipeline
+export const bindQueryParams = (
+  pipeline: Document[],
+  params: SavedQueryParam[],
+  values: Record<string, unknown>
+): { pipeline: Document[]; errors: ParamError[] } => {
+  const errors: ParamError[] = [];
+  const bound = new Map<string, unknown>();
+
+  for (const name of Object.keys(values)) {
+    if (!params.some((param) => param.name === name)) {
+      errors.push({ param: name, reason: "is not a parameter of this query" });
+    }
+  }
+
+  for (const param of params) {
+    const value = values[param.name] ?? param.default;
+    if (value === undefined) {
+      if (param.required) {
+        errors.push({ param: param.name, reason: "is required" });
+      } else {
+        bound.set(param.name, null);
+      }
+      continue;
+    }
+
+    const coerced = coerceParam(param.type, value);
+    if (coerced.reason) {
+      errors.push({ param: param.name, reason: coerced.reason });
+    } else {
+      bound.set(param.name, coerced.value);
+    }
+  }
+
+  for (const name of findParamReferences(pipeline)) {
+    if (!params.some((param) => param.name === name)) {
+      errors.push({ param: name, reason: "is not declared" });
+    }
+  }
+
+  return {
+    pipeline: replaceParams(pipeline, (name) => bound.get(name)) as Document[],
+    errors,
+  };
+};
@@ -0,0 +1,209 @@
+import express, { Request, Response } from "express";
+
+import { getQueryTimeBudget } from "./analytics";
+import { getGrant, hasAccess } from "./auth";
+import {
+  findPlayerActivity,
+  getSupportedGames,
+  isMaxTimeExpiredError,
+  rebuildPlayerSummaries,
+} from "./db";
+import { getWindowStart } from "./leaderboard";
+import {
+  RetentionBucket,
+  RetentionCohort,
+  RetentionQuery,
+  retentionQuerySchema,
+} from "./types";
+import { formatValidationErrors, validateInput } from "./validation";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const getBucketMs = (bucket: RetentionBucket) =>
+  bucket === "week" ? 7 * MS_PER_DAY : MS_PER_DAY;
+
+// Start of the day (or week, from Monday) containing a time
+const getBucketStart = (
+  bucket: RetentionBucket,
+  time: Date,
+  timezone: string
+) => getWindowStart(bucket === "week" ? "weekly" : "daily", time, timezone)!;
+
+// Retention matrix built one player at a time: players are grouped into cohorts
+// by the day (or week) they were first seen, and counted as retained in every
+// later period they were active in
+export const createRetentionMatrix = (
+  bucket: RetentionBucket,
+  periods: number,
+  timezone: string
+) => {
+  const cohorts = new Map<number, RetentionCohort>();
+  const bucketMs = getBucketMs(bucket);
+
+  return {
+    add(firstSeen: Date, activeDays: Date[]) {
+      const cohortStart = getBucketStart(bucket, firstSeen, timezone);
+      const key = cohortStart.getTime();
+      let cohort = cohorts.get(key);
+      if (!cohort) {
+        cohort = {
+          cohort: cohortStart,
+          size: 0,
+          retained: new Array(periods + 1).fill(0),
+          rates: [],
+        };
+        cohorts.set(key, cohort);
+      }
+
+      // Periods are rounded, days are not all 24 hours long around DST changes
+      const activePeriods = new Set([0]);
+      for (const day of activeDays) {
+        const start = getBucketStart(bucket, day, timezone).getTime();
+        const period = Math.round((start - key) / bucketMs);
+        if (period >= 0 && period <= periods) {
+          activePeriods.add(period);
+        }
+      }
+
+      cohort.size++;
+      for (const period of activePeriods) {
+        cohort.retained[period]++;
+      }
+    },
+
+    getCohorts(): RetentionCohort[] {
+      return [...cohorts.values()]
+        .sort((a, b) => a.cohort.getTime() - b.cohort.getTime())
+        .map((cohort) => ({
+          ...cohort,
+          rates: cohort.retained.map((count) => count / cohort.size),
+        }));
+    },
+  };
+};
+
+export const getRetention = async (req: Request, res: Response) => {
+  const validationResult = await validateInput<RetentionQuery>(
+    retentionQuerySchema,
+    req.body
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid query data",
+      message: "Query validation failed",
+      details: errors,
+    });
+  }
+
+  const query = validationResult.data;
+  if (!getSupportedGames().includes(query.game)) {
+    return res.status(400).json({
+      error: "Invalid game",
+      message: "Game is not supported",
+    });
+  }
+
+  // Activity is read up to the last period of the last cohort
+  const to = query.to ?? new Date();
+  const activeUntil = new Date(
+    to.getTime() + (query.periods + 1) * getBucketMs(query.bucket)
+  );
+  const maxTimeMS = getQueryTimeBudget(
+    hasAccess(getGrant(res), "admin", query.game)
+  );
+  const cursor = findPlayerActivity(
+    query.game,
+    {
+      mode: query.split_by_mode ? { $ne: null } : (query.mode ?? null),
+      from: query.from,
+      to,
+      activeUntil,
+      timezone: query.timezone,
+    },
+    maxTimeMS
+  );
+
+  // Stop reading players if the client disconnects
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      cursor.close().catch(() => undefined);
+    }
+  });
+
+  const matrices = new Map<
+    string | null,
+    ReturnType<typeof createRetentionMatrix>
+  >();
+
+  try {
+    for await (const player of cursor) {
+      let matrix = matrices.get(player.mode);
+      if (!matrix) {
+        matrix = createRetentionMatrix(
+          query.bucket,
+          query.periods,
+          query.timezone
+        );
+        matrices.set(player.mode, matrix);
+      }
+      matrix.add(player.first_seen, player.active_days);
+    }
+  } catch (error) {
+    if (res.writableEnded || res.destroyed) {
+      return;
+    }
+    if (isMaxTimeExpiredError(error)) {
+      return res.status(504).json({
+        error: "Query timeout",
+        message: `Retention report exceeded its time limit of ${maxTimeMS}ms`,
+      });
+    }
+    console.error(`Error computing retention for ${query.game}:`, error);
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to compute retention",
+    });
+  }
+
+  res.json({
+    bucket: query.bucket,
+    periods: query.periods,
+    timezone: query.timezone,
+    matrices: [...matrices.entries()].map(([mode, matrix]) => ({
+      mode,
+      cohorts: matrix.getCohorts(),
+    })),
+  });
+};
+
+// Recompute the player summaries of a game from its events
+const rebuildPlayers = async (req: Request, res: Response) => {
+  const game = req.params.game;
+  if (!getSupportedGames().includes(game)) {
+    return res.status(404).json({
+      error: "Game not found",
+      message: "No game is registered with this name",
+    });
+  }
+
+  const result = await rebuildPlayerSummaries(game);
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to rebuild player summaries",
+    });
+  }
+
+  res.json({ rebuilt: result.data });
+};
+
+// Admin routes for the player summaries of a game
+export const createPlayerAdminRoutes = () => {
+  const router = express.Router({ mergeParams: true });
+
+  router.post("/rebuild", rebuildPlayers);
+
+  return router;
+};
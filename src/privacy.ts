@@ -0,0 +1,192 @@
+import crypto from "crypto";
+import express, { Request, Response } from "express";
+import { Document } from "mongodb";
+
+import { getResultCache } from "./analyticsCache";
+import { getGrant, requireRole } from "./auth";
+import {
+  erasePlayerData,
+  findPlayerData,
+  findPrivacyRequests,
+  getRegisteredGames,
+  hashPlayerId,
+  insertPrivacyRequest,
+  pseudonymizePlayerData,
+} from "./db";
+import {
+  DatabaseResult,
+  PlayerData,
+  PlayerDataChanges,
+  PrivacyAction,
+  PrivacyRequest,
+  PrivacyRequestInput,
+  privacyRequestSchema,
+} from "./types";
+import { formatValidationErrors, validateInput } from "./validation";
+
+const withoutId = ({ _id, ...record }: Document) => record;
+
+const hasPlayerData = (data: PlayerData) =>
+  Object.values(data).some((records) => records.length > 0);
+
+const createPrivacyRequest = (
+  req: Request,
+  res: Response,
+  action: PrivacyAction,
+  reason?: string
+): PrivacyRequest => ({
+  request_id: crypto.randomUUID(),
+  action,
+  player_hash: hashPlayerId(req.params.player),
+  requested_by: getGrant(res).name,
+  ...(reason && { reason }),
+  created_at: new Date(),
+});
+
+const formatPrivacyRequest = ({ _id, ...request }: PrivacyRequest) => request;
+
+// Everything held about a player in every game (archived games included), as
+// one JSON bundle
+const exportPlayerData = async (req: Request, res: Response) => {
+  const { player } = req.params;
+
+  const games: Record<string, Record<string, Document[]>> = {};
+  for (const game of getRegisteredGames()) {
+    const result = await findPlayerData(game, player);
+    if (!result.success || !result.data) {
+      return res.status(500).json({
+        error: "Database error",
+        message: "Failed to export player data",
+      });
+    }
+    if (hasPlayerData(result.data)) {
+      games[game] = Object.fromEntries(
+        Object.entries(result.data).map(([kind, records]) => [
+          kind,
+          records.map(withoutId),
+        ])
+      );
+    }
+  }
+
+  const request = createPrivacyRequest(req, res, "export");
+  const audit = await insertPrivacyRequest(request);
+  if (!audit.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to record privacy request",
+    });
+  }
+
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="player_data_${request.request_id}.json"`
+  );
+  res.json({
+    request_id: request.request_id,
+    player,
+    exported_at: request.created_at,
+    games,
+  });
+};
+
+// Apply an erase or pseudonymize request to every game, then record it. When a
+// game fails partway the games done so far stay changed and are recorded.
+const changePlayerData = async (
+  req: Request,
+  res: Response,
+  action: "erase" | "pseudonymize",
+  change: (game: string) => Promise<DatabaseResult<PlayerDataChanges>>
+) => {
+  const validationResult = await validateInput<PrivacyRequestInput>(
+    privacyRequestSchema,
+    req.body || {}
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid privacy request",
+      message: "Privacy request validation failed",
+      details: errors,
+    });
+  }
+
+  const request = createPrivacyRequest(
+    req,
+    res,
+    action,
+    validationResult.data.reason
+  );
+  request.changes = [];
+  for (const game of getRegisteredGames()) {
+    const result = await change(game);
+    // Cached analytics results may still hold the player's data
+    getResultCache().clearGame(game);
+    if (!result.success || !result.data) {
+      request.error = result.error || "Unknown error";
+      break;
+    }
+    request.changes.push(result.data);
+  }
+
+  const audit = await insertPrivacyRequest(request);
+  if (request.error) {
+    return res.status(500).json({
+      error: "Database error",
+      message: `Failed to ${action} player data, request ${request.request_id} records the games already done`,
+    });
+  }
+  if (!audit.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message:
+        "Player data was changed but the privacy request was not recorded",
+    });
+  }
+
+  res.json(formatPrivacyRequest(request));
+};
+
+const erasePlayer = (req: Request, res: Response) =>
+  changePlayerData(req, res, "erase", (game) =>
+    erasePlayerData(game, req.params.player)
+  );
+
+// One pseudonym for every game, so that aggregates across games still add up.
+// It is not recorded anywhere, so it cannot be traced back to the player.
+const pseudonymizePlayer = (req: Request, res: Response) => {
+  const pseudonym = `anon_${crypto.randomBytes(8).toString("hex")}`;
+  return changePlayerData(req, res, "pseudonymize", (game) =>
+    pseudonymizePlayerData(game, req.params.player, pseudonym)
+  );
+};
+
+const listPrivacyRequests = async (req: Request, res: Response) => {
+  const player =
+    typeof req.query.player === "string" ? req.query.player : undefined;
+
+  const result = await findPrivacyRequests(player);
+  if (!result.success || !result.data) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to list privacy requests",
+    });
+  }
+
+  res.json(result.data.map(formatPrivacyRequest));
+};
+
+// Privacy requests span every game, so they need an admin of every game
+export const createPrivacyRoutes = () => {
+  const router = express.Router();
+
+  router.use(requireRole("admin"));
+
+  router.get("/requests", listPrivacyRequests);
+  router.get("/players/:player", exportPlayerData);
+  router.post("/players/:player/erase", erasePlayer);
+  router.post("/players/:player/pseudonymize", pseudonymizePlayer);
+
+  return router;
+};
@@ -0,0 +1,311 @@
+import { NextFunction, Request, Response } from "express";
+
+import { getDB, getGameConfig } from "./db";
+import {
+  MAX_EVENT_BATCH_SIZE,
+  RateLimitBudget,
+  RateLimitScope,
+  RateLimitScopeSettings,
+} from "./types";
+
+// Budgets used for games that do not configure their own (a player's event
+// bucket holds a full batch, so a valid batch is never too large)
+const DEFAULT_RATE_LIMITS: Record<RateLimitScope, RateLimitScopeSettings> = {
+  events: {
+    ip: { capacity: 600, refill_per_second: 10 },
+    player: { capacity: MAX_EVENT_BATCH_SIZE, refill_per_second: 5 },
+  },
+  scores: {
+    ip: { capacity: 60, refill_per_second: 1 },
+    player: { capacity: 30, refill_per_second: 0.5 },
+  },
+  analytics: {
+    ip: { capacity: 20, refill_per_second: 0.2 },
+  },
+};
+
+// The memory store keeps at most this many buckets, forgetting the least
+// recently used ones (a forgotten bucket starts full again)
+const MAX_MEMORY_BUCKETS = 10000;
+
+const RATE_LIMITS_COLLECTION = "rate_limits";
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until enough tokens are available again
+  retryAfter: number;
+}
+
+// Where token buckets are kept (in memory for one instance, Mongo for several)
+export interface RateLimitStore {
+  consume(
+    key: string,
+    budget: RateLimitBudget,
+    cost: number,
+    now: Date
+  ): Promise<RateLimitResult>;
+  // Give back tokens consumed for a request that was refused by another bucket
+  refund(
+    key: string,
+    budget: RateLimitBudget,
+    cost: number,
+    now: Date
+  ): Promise<void>;
+}
+
+const getRetryAfter = (
+  tokens: number,
+  budget: RateLimitBudget,
+  cost: number
+) => {
+  return Math.max(1, Math.ceil((cost - tokens) / budget.refill_per_second));
+};
+
+// Seconds for an empty bucket to fill up again, after which it can be forgotten
+const getFullRefillSeconds = (budget: RateLimitBudget) => {
+  return Math.ceil(budget.capacity / budget.refill_per_second);
+};
+
+export const createMemoryRateLimitStore = (
+  maxBuckets: number = MAX_MEMORY_BUCKETS
+): RateLimitStore => {
+  // Maps iterate in insertion order, so re-inserting a bucket on every use
+  // keeps the least recently used one first
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  return {
+    async consume(key, budget, cost, now) {
+      const time = now.getTime();
+      const bucket = buckets.get(key);
+      buckets.delete(key);
+      const elapsed = bucket ? (time - bucket.updatedAt) / 1000 : 0;
+      const tokens = bucket
+        ? Math.min(
+            budget.capacity,
+            bucket.tokens + elapsed * budget.refill_per_second
+          )
+        : budget.capacity;
+
+      const allowed = tokens >= cost;
+      buckets.set(key, {
+        tokens: allowed ? tokens - cost : tokens,
+        updatedAt: time,
+      });
+      if (buckets.size > maxBuckets) {
+        buckets.delete(buckets.keys().next().value!);
+      }
+
+      return {
+        allowed,
+        retryAfter: allowed ? 0 : getRetryAfter(tokens, budget, cost),
+      };
+    },
+
+    async refund(key, budget, cost) {
+      const bucket = buckets.get(key);
+      if (!bucket) return;
+      bucket.tokens = Math.min(budget.capacity, bucket.tokens + cost);
+    },
+  };
+};
+
+// Buckets shared by every instance, refilled and consumed in a single atomic update
+export const createMongoRateLimitStore = (): RateLimitStore => {
+  let indexCreated = false;
+
+  return {
+    async consume(key, budget, cost, now) {
+      const collection = getDB().collection<{
+        _id: string;
+        tokens: number;
+        allowed: boolean;
+        updated_at: Date;
+        expires_at: Date;
+      }>(RATE_LIMITS_COLLECTION);
+
+      if (!indexCreated) {
+        await collection.createIndex(
+          { expires_at: 1 },
+          { expireAfterSeconds: 0 }
+        );
+        indexCreated = true;
+      }
+
+      const bucket = await collection.findOneAndUpdate(
+        { _id: key },
+        [
+          {
+            $set: {
+              tokens: {
+                $min: [
+                  budget.capacity,
+                  {
+                    $add: [
+                      { $ifNull: ["$tokens", budget.capacity] },
+                      {
+                        $multiply: [
+                          {
+                            $divide: [
+                              {
+                                $subtract: [
+                                  now,
+                                  { $ifNull: ["$updated_at", now] },
+                                ],
+                              },
+                              1000,
+                            ],
+                          },
+                          budget.refill_per_second,
+                        ],
+                      },
+                    ],
+                  },
+                ],
+              },
+            },
+          },
+          { $set: { allowed: { $gte: ["$tokens", cost] } } },
+          {
+            $set: {
+              tokens: {
+                $cond: [
+                  "$allowed",
+                  { $subtract: ["$tokens", cost] },
+                  "$tokens",
+                ],
+              },
+              updated_at: now,
+              expires_at: new Date(
+                now.getTime() + getFullRefillSeconds(budget) * 1000
+              ),
+            },
+          },
+        ],
+        { upsert: true, returnDocument: "after" }
+      );
+
+      if (!bucket || bucket.allowed) {
+        return { allowed: true, retryAfter: 0 };
+      }
+      return {
+        allowed: false,
+        retryAfter: getRetryAfter(bucket.tokens, budget, cost),
+      };
+    },
+
+    async refund(key, budget, cost) {
+      await getDB()
+        .collection<{ _id: string; tokens: number }>(RATE_LIMITS_COLLECTION)
+        .updateOne({ _id: key }, [
+          {
+            $set: {
+              tokens: { $min: [budget.capacity, { $add: ["$tokens", cost] }] },
+            },
+          },
+        ]);
+    },
+  };
+};
+
+let store: RateLimitStore | undefined;
+
+// RATE_LIMIT_STORE=mongo shares limits between instances, memory is the default
+export const getRateLimitStore = () => {
+  if (!store) {
+    store =
+      process.env.RATE_LIMIT_STORE === "mongo"
+        ? createMongoRateLimitStore()
+        : createMemoryRateLimitStore();
+  }
+  return store;
+};
+
+// A game and player a request spends tokens for
+export interface RateLimitTarget {
+  game: string;
+  player?: string;
+  cost: number;
+}
+
+const getScopeSettings = (game: string, scope: RateLimitScope) => {
+  return {
+    ...DEFAULT_RATE_LIMITS[scope],
+    ...getGameConfig(game)?.rate_limits?.[scope],
+  };
+};
+
+// Token bucket rate limiting per IP and per player. getTargets tells which games
+// and players the request counts against (requests without a registered game are
+// not limited). The player's bucket is checked first so that a player over their
+// limit does not also drain the budget shared by everyone behind the same IP, and
+// a refused request gets back the tokens it took from the buckets before.
+export const rateLimit = (
+  scope: RateLimitScope,
+  getTargets: (req: Request) => RateLimitTarget[]
+) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const now = new Date();
+      const checks: [string, RateLimitBudget, number][] = [];
+
+      for (const target of getTargets(req)) {
+        // Unknown games are rejected later, they must not create buckets
+        if (!getGameConfig(target.game)) continue;
+
+        const settings = getScopeSettings(target.game, scope);
+        if (target.player && settings.player) {
+          checks.push([
+            `${scope}:${target.game}:player:${target.player}`,
+            settings.player,
+            target.cost,
+          ]);
+        }
+        if (settings.ip) {
+          checks.push([
+            `${scope}:${target.game}:ip:${req.ip}`,
+            settings.ip,
+            target.cost,
+          ]);
+        }
+      }
+
+      // A request costing more than a full bucket could never be allowed
+      if (checks.some(([, budget, cost]) => cost > budget.capacity)) {
+        return res.status(413).json({
+          error: "Request too large",
+          message: "Request costs more than the rate limit allows at once",
+        });
+      }
+
+      const store = getRateLimitStore();
+      const consumed: [string, RateLimitBudget, number][] = [];
+      let retryAfter = 0;
+      for (const check of checks) {
+        const [key, budget, cost] = check;
+        const result = await store.consume(key, budget, cost, now);
+        if (!result.allowed) {
+          retryAfter = result.retryAfter;
+          break;
+        }
+        consumed.push(check);
+      }
+
+      if (retryAfter > 0) {
+        for (const [key, budget, cost] of consumed) {
+          await store.refund(key, budget, cost, now);
+        }
+        res.set("Retry-After", String(retryAfter));
+        return res.status(429).json({
+          error: "Too many requests",
+          message: "Rate limit exceeded, retry later",
+        });
+      }
+
+      next();
+    } catch (error) {
+      // Never turn a rate limit store outage into an outage of the API
+      console.error("Error checking rate limit:", error);
+      next();
+    }
+  };
+};
@@ -0,0 +1,122 @@
+import { Request, Response } from "express";
+
+import {
+  findPlayerRuns,
+  findRun,
+  findRunEvents,
+  getSupportedGames,
+} from "./db";
+import {
+  EventRecord,
+  PlayerRunsQuery,
+  playerRunsQuerySchema,
+  RunSummary,
+  RunTimelineQuery,
+  runTimelineQuerySchema,
+} from "./types";
+import { formatValidationErrors, validateInput } from "./validation";
+
+const formatRun = ({ _id, ...run }: RunSummary) => run;
+
+const formatTimelineEvent = (event: EventRecord) => ({
+  event_id: event.event_id,
+  event_name: event.event_name,
+  mode: event.mode,
+  data: event.data,
+  timestamp: event.timestamp,
+  flagged: event.flagged,
+});
+
+// A player's runs, most recent first (page with ?before=<started_at of the last run>)
+export const listPlayerRuns = async (req: Request, res: Response) => {
+  const validationResult = await validateInput<PlayerRunsQuery>(
+    playerRunsQuerySchema,
+    req.query
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid query parameters",
+      message: "Query validation failed",
+      details: errors,
+    });
+  }
+
+  const query = validationResult.data;
+  if (!getSupportedGames().includes(query.game)) {
+    return res.status(400).json({
+      error: "Invalid game",
+      message: "Game is not supported",
+    });
+  }
+
+  const result = await findPlayerRuns(
+    query.game,
+    req.params.player,
+    query.limit,
+    query.before
+  );
+  if (!result.success || !result.data) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to list runs",
+    });
+  }
+
+  res.json(result.data.map(formatRun));
+};
+
+// A player's run summary and its events in the order they happened
+export const getRunTimeline = async (req: Request, res: Response) => {
+  const validationResult = await validateInput<RunTimelineQuery>(
+    runTimelineQuerySchema,
+    req.query
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid query parameters",
+      message: "Query validation failed",
+      details: errors,
+    });
+  }
+
+  const query = validationResult.data;
+  if (!getSupportedGames().includes(query.game)) {
+    return res.status(400).json({
+      error: "Invalid game",
+      message: "Game is not supported",
+    });
+  }
+
+  const { player, run: runId } = req.params;
+  const run = await findRun(query.game, player, runId);
+  if (!run.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to find run",
+    });
+  }
+  if (!run.data) {
+    return res.status(404).json({
+      error: "Run not found",
+      message: "No run with this id was recorded for the player",
+    });
+  }
+
+  const events = await findRunEvents(query.game, player, runId, query.limit);
+  if (!events.success || !events.data) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to read run events",
+    });
+  }
+
+  res.json({
+    ...formatRun(run.data),
+    events: events.data.map(formatTimelineEvent),
+    truncated: events.data.length === query.limit,
+  });
+};
@@ -0,0 +1,281 @@
+import express, { Request, Response } from "express";
+
+import { runAnalyticsQuery } from "./analytics";
+import { getGrant, getReadableCollections, requireRole } from "./auth";
+import {
+  findSavedQueries,
+  findSavedQuery,
+  findSavedQueryVersions,
+  getSupportedGames,
+  saveQuery,
+} from "./db";
+import { bindQueryParams, validatePipeline } from "./pipeline";
+import { rateLimit, RateLimitTarget } from "./rateLimit";
+import {
+  RunSavedQueryInput,
+  runSavedQuerySchema,
+  SavedQueryParamType,
+  savedQueryNameSchema,
+  SavedQueryVersion,
+  SaveQueryInput,
+  saveQuerySchema,
+} from "./types";
+import { formatValidationErrors, validateInput } from "./validation";
+
+// Stand-in values used to check a pipeline when it is saved
+const SAMPLE_PARAM_VALUES: Record<SavedQueryParamType, unknown> = {
+  string: "sample",
+  number: 1,
+  boolean: true,
+  date: 0,
+};
+
+const formatSavedQuery = <T extends SavedQueryVersion>({ _id, ...query }: T) =>
+  query;
+
+// GET routes take the game from the query string, PUT and POST from the body
+// (the handlers read the same field, so access is checked for the game they use)
+const getGameParam = (req: Request) =>
+  req.method === "GET" ? req.query.game : req.body?.game;
+
+const checkQueryName = (req: Request, res: Response) => {
+  if (savedQueryNameSchema.validate(req.params.name).error) {
+    res.status(400).json({
+      error: "Invalid query name",
+      message:
+        "Query names may only contain lowercase letters, digits, - and _",
+    });
+    return false;
+  }
+  return true;
+};
+
+const checkGame = (game: string, res: Response) => {
+  if (!getSupportedGames().includes(game)) {
+    res.status(400).json({
+      error: "Invalid game",
+      message: "Game is not supported",
+    });
+    return false;
+  }
+  return true;
+};
+
+const listSavedQueries = async (req: Request, res: Response) => {
+  const game = String(getGameParam(req));
+  if (!checkGame(game, res)) {
+    return;
+  }
+
+  const result = await findSavedQueries(game);
+  if (!result.success || !result.data) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to list saved queries",
+    });
+  }
+
+  res.json(result.data.map(formatSavedQuery));
+};
+
+const putSavedQuery = async (req: Request, res: Response) => {
+  if (!checkQueryName(req, res)) {
+    return;
+  }
+
+  const validationResult = await validateInput<SaveQueryInput>(
+    saveQuerySchema,
+    req.body
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid query data",
+      message: "Query validation failed",
+      details: errors,
+    });
+  }
+
+  const input = validationResult.data;
+  if (!checkGame(input.game, res)) {
+    return;
+  }
+
+  // Check the pipeline with sample parameter values, it is checked again with
+  // the real values every time it runs
+  const samples = Object.fromEntries(
+    input.params.map((param) => [
+      param.name,
+      param.default ?? SAMPLE_PARAM_VALUES[param.type],
+    ])
+  );
+  const bound = bindQueryParams(input.pipeline, input.params, samples);
+  if (bound.errors.length > 0) {
+    return res.status(400).json({
+      error: "Invalid parameters",
+      message: "Query parameters are invalid",
+      details: bound.errors,
+    });
+  }
+
+  const validation = validatePipeline(bound.pipeline, {
+    readableCollections: getReadableCollections(getGrant(res)),
+  });
+  if (validation.rejections.length > 0) {
+    return res.status(400).json({
+      error: "Invalid pipeline",
+      message: "Pipeline validation failed",
+      details: validation.rejections,
+    });
+  }
+
+  const result = await saveQuery(
+    input.game,
+    req.params.name,
+    input,
+    getGrant(res).name
+  );
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to save query",
+    });
+  }
+  if (!result.data) {
+    return res.status(409).json({
+      error: "Conflict",
+      message: "The query was saved by someone else at the same time",
+    });
+  }
+
+  res
+    .status(result.data.version === 1 ? 201 : 200)
+    .json(formatSavedQuery(result.data));
+};
+
+const listSavedQueryVersions = async (req: Request, res: Response) => {
+  const game = String(getGameParam(req));
+  if (!checkQueryName(req, res) || !checkGame(game, res)) {
+    return;
+  }
+
+  const result = await findSavedQueryVersions(game, req.params.name);
+  if (!result.success || !result.data) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to list saved query versions",
+    });
+  }
+  if (result.data.length === 0) {
+    return res.status(404).json({
+      error: "Saved query not found",
+      message: "No query with this name is saved for the game",
+    });
+  }
+
+  res.json(result.data.map(formatSavedQuery));
+};
+
+// GET runs take the settings and parameters from the query string, POST runs
+// from the body ({ game, params, ...settings })
+const getRunInput = (req: Request) => {
+  if (req.method !== "GET") {
+    return req.body;
+  }
+
+  const {
+    game,
+    lenient,
+    max_time_ms,
+    allow_disk_use,
+    include_stats,
+    cache,
+    format,
+    ...params
+  } = req.query;
+  return {
+    game,
+    lenient,
+    max_time_ms,
+    allow_disk_use,
+    include_stats,
+    cache,
+    format,
+    params,
+  };
+};
+
+const runSavedQuery = async (req: Request, res: Response) => {
+  if (!checkQueryName(req, res)) {
+    return;
+  }
+
+  const validationResult = await validateInput<RunSavedQueryInput>(
+    runSavedQuerySchema,
+    getRunInput(req)
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid query data",
+      message: "Query validation failed",
+      details: errors,
+    });
+  }
+
+  const input = validationResult.data;
+  if (!checkGame(input.game, res)) {
+    return;
+  }
+
+  const result = await findSavedQuery(input.game, req.params.name);
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to find saved query",
+    });
+  }
+  if (!result.data) {
+    return res.status(404).json({
+      error: "Saved query not found",
+      message: "No query with this name is saved for the game",
+    });
+  }
+
+  const bound = bindQueryParams(
+    result.data.pipeline,
+    result.data.params,
+    input.params
+  );
+  if (bound.errors.length > 0) {
+    return res.status(400).json({
+      error: "Invalid parameters",
+      message: "Query parameters are invalid",
+      details: bound.errors,
+    });
+  }
+
+  return runAnalyticsQuery(res, input.game, bound.pipeline, input);
+};
+
+const getSavedQueryTargets = (req: Request): RateLimitTarget[] => {
+  const game = getGameParam(req);
+  return typeof game === "string" ? [{ game, cost: 1 }] : [];
+};
+
+export const createSavedQueryRoutes = () => {
+  const router = express.Router();
+
+  const requireAnalyst = requireRole("analyst", getGameParam);
+  const analyticsLimit = rateLimit("analytics", getSavedQueryTargets);
+
+  router.get("/", requireAnalyst, listSavedQueries);
+  router.put("/:name", requireAnalyst, putSavedQuery);
+  router.get("/:name/versions", requireAnalyst, listSavedQueryVersions);
+  router.get("/:name", requireAnalyst, analyticsLimit, runSavedQuery);
+  router.post("/:name", requireAnalyst, analyticsLimit, runSavedQuery);
+
+  return router;
+};
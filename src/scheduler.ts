@@ -0,0 +1,42 @@
+// Background jobs run on an interval inside the server process. A job that is
+// still running when its next turn comes is skipped rather than run twice.
+const timers = new Map<string, NodeJS.Timeout>();
+
+export const scheduleJob = (
+  name: string,
+  intervalMs: number,
+  job: () => Promise<void>
+) => {
+  stopJob(name);
+
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await job();
+    } catch (error) {
+      console.error(`Error running scheduled job ${name}:`, error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  // Never keep the process alive just for a job
+  timer.unref();
+  timers.set(name, timer);
+};
+
+export const stopJob = (name: string) => {
+  const timer = timers.get(name);
+  if (timer) {
+    clearInterval(timer);
+    timers.delete(name);
+  }
+};
+
+export const stopScheduledJobs = () => {
+  for (const name of [...timers.keys()]) {
+    stopJob(name);
+  }
+};
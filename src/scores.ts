@@ -0,0 +1,201 @@
+import express, { Request, Response } from "express";
+import { ObjectId } from "mongodb";
+
+import {
+  findFlaggedEvents,
+  findRunActivity,
+  getGameConfig,
+  insertScore,
+  reviewFlaggedEvent,
+} from "./db";
+import {
+  GameEvent,
+  ReviewFlaggedScoreInput,
+  reviewFlaggedScoreSchema,
+  ScoreRecord,
+} from "./types";
+import { formatValidationErrors, validateInput } from "./validation";
+import { publishScore } from "./live";
+import { triggerScoreWebhooks } from "./webhooks";
+
+// Build the scores collection record for a high score event (undefined for other events)
+export const buildScoreRecord = (event: GameEvent): ScoreRecord | undefined => {
+  const playerName = event.data.player_name;
+  const score = event.data.score;
+  if (
+    event.event_name !== "high_score" ||
+    !event.mode ||
+    !event.run ||
+    !playerName ||
+    typeof playerName !== "string" ||
+    !score ||
+    typeof score !== "number"
+  ) {
+    return undefined;
+  }
+
+  const scoreRecord: ScoreRecord = {
+    game: event.game,
+    mode: event.mode,
+    player: event.player,
+    run: event.run,
+    player_name: playerName,
+    score: score,
+    data: event.data,
+    timestamp: event.timestamp,
+  };
+  if (event.event_id) {
+    scoreRecord.event_id = event.event_id;
+  }
+
+  return scoreRecord;
+};
+
+// Check a score against the game's anti-cheat rules, returning why it was refused
+// (an empty list means the score can go on the leaderboard). When the scoring
+// event is already stored, its id keeps it out of the run's activity.
+export const checkScoreRules = async (
+  score: ScoreRecord,
+  scoringEventId?: ObjectId
+): Promise<string[]> => {
+  const rules = (getGameConfig(score.game)?.score_rules || []).filter(
+    (rule) => !rule.mode || rule.mode === score.mode
+  );
+  if (rules.length === 0) {
+    return [];
+  }
+
+  const reasons: string[] = [];
+  const needsActivity = rules.some(
+    (rule) => rule.max_score_per_second || rule.required_events?.length
+  );
+
+  const activityResult = needsActivity
+    ? await findRunActivity(
+        score.game,
+        score.player,
+        score.run,
+        score.timestamp,
+        scoringEventId
+      )
+    : undefined;
+  if (activityResult && !activityResult.success) {
+    return ["Run events could not be checked"];
+  }
+  const activity = activityResult?.data;
+
+  for (const rule of rules) {
+    if (rule.min_score !== undefined && score.score < rule.min_score) {
+      reasons.push(`Score is below the minimum of ${rule.min_score}`);
+    }
+
+    if (rule.max_score !== undefined && score.score > rule.max_score) {
+      reasons.push(`Score is above the maximum of ${rule.max_score}`);
+    }
+
+    if (rule.max_score_per_second && activity) {
+      const seconds = activity.first_event_at
+        ? (score.timestamp.getTime() - activity.first_event_at.getTime()) / 1000
+        : 0;
+      if (seconds <= 0) {
+        reasons.push("Run duration could not be determined");
+      } else if (score.score / seconds > rule.max_score_per_second) {
+        reasons.push(
+          `Score rate exceeds ${rule.max_score_per_second} points per second`
+        );
+      }
+    }
+
+    for (const eventName of rule.required_events || []) {
+      if (activity && !activity.event_names.includes(eventName)) {
+        reasons.push(`Run is missing a ${eventName} event`);
+      }
+    }
+  }
+
+  return reasons;
+};
+
+const listFlaggedScores = async (req: Request, res: Response) => {
+  const { game } = req.params;
+  const mode = req.query.mode as string | undefined;
+  const includeReviewed = req.query.include_reviewed === "true";
+
+  const result = await findFlaggedEvents(game, mode, includeReviewed);
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to fetch flagged scores",
+    });
+  }
+
+  res.json(result.data);
+};
+
+// Approving a flagged score puts it on the leaderboard, rejecting just records the review
+const reviewFlaggedScore = async (req: Request, res: Response) => {
+  const { game, eventId } = req.params;
+
+  if (!ObjectId.isValid(eventId)) {
+    return res.status(400).json({
+      error: "Invalid event id",
+      message: "Event id is not valid",
+    });
+  }
+
+  const validationResult = await validateInput<ReviewFlaggedScoreInput>(
+    reviewFlaggedScoreSchema,
+    req.body
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid review data",
+      message: "Review validation failed",
+      details: errors,
+    });
+  }
+
+  const { review } = validationResult.data;
+  const result = await reviewFlaggedEvent(game, new ObjectId(eventId), review);
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to review flagged score",
+    });
+  }
+  if (!result.data) {
+    return res.status(404).json({
+      error: "Flagged score not found",
+      message: "No flagged score exists with this id",
+    });
+  }
+
+  const scoreRecord = buildScoreRecord(result.data);
+  if (review === "approved" && scoreRecord) {
+    const scoreResult = await insertScore(scoreRecord);
+    if (!scoreResult.success) {
+      return res.status(500).json({
+        error: "Database error",
+        message: "Failed to record approved score",
+      });
+    }
+    if (scoreResult.data?.duplicate === false) {
+      publishScore(scoreRecord);
+      triggerScoreWebhooks(scoreRecord);
+    }
+  }
+
+  res.json(result.data);
+};
+
+// Admin routes for reviewing scores refused by the anti-cheat rules
+export const createFlaggedScoreRoutes = () => {
+  const router = express.Router({ mergeParams: true });
+
+  router.get("/", listFlaggedScores);
+  router.patch("/:eventId", reviewFlaggedScore);
+
+  return router;
+};
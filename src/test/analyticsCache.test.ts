@@ -0,0 +1,80 @@
+import { createResultCache, getResultCacheKey } from "../analyticsCache";
+
+const result = (count: number) => ({
+  results: [{ count }],
+  stats: { execution_time_ms: 5, max_time_ms: 1000, allow_disk_use: false },
+});
+
+const options = { maxTimeMS: 1000, allowDiskUse: false, includeStats: false };
+
+describe("analytics result cache", () => {
+  it("should return results until they expire", () => {
+    const cache = createResultCache(1000, 10);
+    cache.set("a", result(1), 0);
+
+    expect(cache.get("a", 999)?.result).toEqual(result(1));
+    expect(cache.get("a", 999)?.cached_at).toEqual(new Date(0));
+    expect(cache.get("a", 1000)).toBeUndefined();
+  });
+
+  it("should evict the oldest entries when full", () => {
+    const cache = createResultCache(1000, 2);
+    cache.set("a", result(1), 0);
+    cache.set("b", result(2), 1);
+    cache.set("c", result(3), 2);
+
+    expect(cache.get("a", 3)).toBeUndefined();
+    expect(cache.get("b", 3)?.result).toEqual(result(2));
+    expect(cache.get("c", 3)?.result).toEqual(result(3));
+  });
+
+  it("should drop the results of one game", () => {
+    const cache = createResultCache(1000, 10);
+    const pipeline = [{ $match: { event_name: "run_start" } }];
+    const gundig = getResultCacheKey("gundig", pipeline, options);
+    const other = getResultCacheKey("eldritch_shores", pipeline, options);
+    cache.set(gundig, result(1), 0);
+    cache.set(other, result(2), 0);
+
+    cache.clearGame("gundig");
+    expect(cache.get(gundig, 1)).toBeUndefined();
+    expect(cache.get(other, 1)?.result).toEqual(result(2));
+  });
+
+  it("should key on the game and the exact pipeline values", () => {
+    const pipeline = [{ $match: { timestamp: { $gte: new Date(0) } } }];
+
+    expect(getResultCacheKey("gundig", pipeline, options)).toBe(
+      getResultCacheKey(
+        "gundig",
+        [{ $match: { timestamp: { $gte: new Date(0) } } }],
+        options
+      )
+    );
+    expect(getResultCacheKey("gundig", pipeline, options)).not.toBe(
+      getResultCacheKey("eldritch_shores", pipeline, options)
+    );
+    expect(getResultCacheKey("gundig", pipeline, options)).not.toBe(
+      getResultCacheKey(
+        "gundig",
+        [{ $match: { timestamp: { $gte: new Date(0).toISOString() } } }],
+        options
+      )
+    );
+  });
+
+  it("should key on the options the query runs with", () => {
+    const pipeline = [{ $match: { event_name: "run_start" } }];
+    const key = getResultCacheKey("gundig", pipeline, options);
+
+    expect(
+      getResultCacheKey("gundig", pipeline, { ...options, maxTimeMS: 500 })
+    ).not.toBe(key);
+    expect(
+      getResultCacheKey("gundig", pipeline, { ...options, allowDiskUse: true })
+    ).not.toBe(key);
+    expect(
+      getResultCacheKey("gundig", pipeline, { ...options, includeStats: true })
+    ).not.toBe(key);
+  });
+});
@@ -0,0 +1,124 @@
+import request from "supertest";
+import { TestDatabase, createTestEvent } from "./utils";
+import { createApp } from "../app";
+import { connectDB, disconnectDB } from "../db";
+import { signPayload } from "../auth";
+
+const ADMIN_KEY = "test-admin-key";
+
+describe("Event ingestion API keys", () => {
+  let testDb: TestDatabase;
+  let app: any;
+
+  beforeAll(async () => {
+    process.env.ADMIN_API_KEY = ADMIN_KEY;
+
+    // Start in-memory database
+    testDb = new TestDatabase();
+    const mongoUri = await testDb.start();
+    await connectDB(mongoUri);
+
+    // Create test app
+    app = await createApp();
+  });
+
+  afterAll(async () => {
+    // Stop in-memory database
+    await disconnectDB();
+    await testDb.stop();
+  });
+
+  beforeEach(async () => {
+    // Clear all collections before each test
+    await testDb.clearCollections();
+  });
+
+  afterEach(async () => {
+    // Reset the ingestion requirements changed by the tests
+    await request(app)
+      .patch("/api/admin/games/gundig")
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .send({ require_api_key: false, require_signature: false });
+  });
+
+  const createKey = async () => {
+    const response = await request(app)
+      .post("/api/admin/games/gundig/keys")
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .send({ label: "web build" })
+      .expect(201);
+    return response.body;
+  };
+
+  const requireIngestion = async (settings: Record<string, boolean>) => {
+    await request(app)
+      .patch("/api/admin/games/gundig")
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .send(settings)
+      .expect(200);
+  };
+
+  const event = createTestEvent({
+    game: "gundig",
+    player: "123-456",
+    event_name: "run_start",
+  });
+
+  it("should reject events without a key when one is required", async () => {
+    await requireIngestion({ require_api_key: true });
+
+    const response = await request(app)
+      .post("/api/events")
+      .send(event)
+      .expect(401);
+    expect(response.body.error).toBe("Unauthorized");
+  });
+
+  it("should accept events with an active key and reject revoked keys", async () => {
+    await requireIngestion({ require_api_key: true });
+    const apiKey = await createKey();
+
+    await request(app)
+      .post("/api/events")
+      .set("X-Api-Key", apiKey.key)
+      .send(event)
+      .expect(201);
+
+    await request(app)
+      .delete(`/api/admin/games/gundig/keys/${apiKey.key_id}`)
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .expect(200);
+
+    const response = await request(app)
+      .post("/api/events")
+      .set("X-Api-Key", apiKey.key)
+      .send(event)
+      .expect(403);
+    expect(response.body.error).toBe("Forbidden");
+  });
+
+  it("should verify request signatures", async () => {
+    await requireIngestion({ require_signature: true });
+    const apiKey = await createKey();
+    const body = JSON.stringify(event);
+    const timestamp = String(Date.now());
+
+    await request(app)
+      .post("/api/events")
+      .set("Content-Type", "application/json")
+      .set("X-Api-Key", apiKey.key)
+      .set("X-Signature-Timestamp", timestamp)
+      .set("X-Signature", "not-a-valid-signature")
+      .send(body)
+      .expect(403);
+
+    await request(app)
+      .post("/api/events")
+      .set("Content-Type", "application/json")
+      .set("X-Api-Key", apiKey.key)
+      .set("X-Signature-Timestamp", timestamp)
+      .set("X-Signature", signPayload(apiKey.key, timestamp, Buffer.from(body)))
+      .send(body)
+      .expect(201);
+  });
+});
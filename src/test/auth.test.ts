@@ -0,0 +1,182 @@
+import request from "supertest";
+import { TestDatabase } from "./utils";
+import { createApp } from "../app";
+import { connectDB, disconnectDB } from "../db";
+
+const ADMIN_KEY = "test-admin-key";
+
+describe("Access tokens", () => {
+  let testDb: TestDatabase;
+  let app: any;
+
+  beforeAll(async () => {
+    process.env.ADMIN_API_KEY = ADMIN_KEY;
+
+    // Start in-memory database
+    testDb = new TestDatabase();
+    const mongoUri = await testDb.start();
+    await connectDB(mongoUri);
+
+    // Create test app
+    app = await createApp();
+  });
+
+  afterAll(async () => {
+    // Stop in-memory database
+    await disconnectDB();
+    await testDb.stop();
+  });
+
+  beforeEach(async () => {
+    // Clear all collections before each test
+    await testDb.clearCollections();
+  });
+
+  const createToken = async (role: string, games: string[]) => {
+    const response = await request(app)
+      .post("/api/admin/tokens")
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .send({ name: `${role} token`, role, games })
+      .expect(201);
+    return response.body.token;
+  };
+
+  const query = (game: string) => ({
+    game,
+    pipeline: [{ $match: { event_name: "run_start" } }],
+  });
+
+  it("should require a token for analytics queries", async () => {
+    const response = await request(app)
+      .post("/api/analytics/query")
+      .send(query("gundig"))
+      .expect(401);
+    expect(response.body.error).toBe("Unauthorized");
+  });
+
+  it("should only allow analysts to query their games", async () => {
+    const token = await createToken("analyst", ["gundig"]);
+
+    await request(app)
+      .post("/api/analytics/query")
+      .set("Authorization", `Bearer ${token}`)
+      .send(query("gundig"))
+      .expect(200);
+
+    await request(app)
+      .post("/api/analytics/query")
+      .set("Authorization", `Bearer ${token}`)
+      .send(query("eldritch_shores"))
+      .expect(403);
+  });
+
+  it("should only let admins allow disk use", async () => {
+    const token = await createToken("analyst", ["gundig"]);
+
+    await request(app)
+      .post("/api/analytics/query")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ ...query("gundig"), allow_disk_use: true })
+      .expect(403);
+
+    const response = await request(app)
+      .post("/api/analytics/query")
+      .set("Authorization", `Bearer ${token}`)
+      .send({
+        ...query("gundig"),
+        max_time_ms: 500,
+        cache: false,
+        format: "report",
+      })
+      .expect(200);
+    expect(response.body.stats.max_time_ms).toBe(500);
+    expect(response.body.stats.allow_disk_use).toBe(false);
+  });
+
+  it("should tell array responses whether they came from the cache", async () => {
+    const token = await createToken("analyst", ["gundig"]);
+    const body = {
+      game: "gundig",
+      pipeline: [{ $match: { event_name: "cache_check" } }],
+    };
+
+    const first = await request(app)
+      .post("/api/analytics/query")
+      .set("Authorization", `Bearer ${token}`)
+      .send(body)
+      .expect(200);
+    expect(first.body).toEqual([]);
+    expect(first.headers["x-cache"]).toBe("MISS");
+    expect(first.headers.age).toBe("0");
+
+    const second = await request(app)
+      .post("/api/analytics/query")
+      .set("Authorization", `Bearer ${token}`)
+      .send(body)
+      .expect(200);
+    expect(second.body).toEqual([]);
+    expect(second.headers["x-cache"]).toBe("HIT");
+  });
+
+  it("should run saved queries as a report from the query string", async () => {
+    const token = await createToken("analyst", ["gundig"]);
+
+    await request(app)
+      .put("/api/analytics/saved/run_starts")
+      .set("Authorization", `Bearer ${token}`)
+      .send(query("gundig"))
+      .expect(201);
+
+    const response = await request(app)
+      .get("/api/analytics/saved/run_starts?game=gundig&format=report")
+      .set("Authorization", `Bearer ${token}`)
+      .expect(200);
+    expect(response.body.results).toEqual([]);
+    expect(response.body.cached).toBe(false);
+  });
+
+  it("should check saved query access for the game in the body", async () => {
+    const token = await createToken("analyst", ["gundig"]);
+
+    await request(app)
+      .put("/api/analytics/saved/run_starts?game=gundig")
+      .set("Authorization", `Bearer ${token}`)
+      .send(query("eldritch_shores"))
+      .expect(403);
+
+    await request(app)
+      .post("/api/analytics/saved/run_starts?game=gundig")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ game: "eldritch_shores" })
+      .expect(403);
+  });
+
+  it("should check view access for the game in the body", async () => {
+    const token = await createToken("admin", ["gundig"]);
+
+    await request(app)
+      .put("/api/analytics/views/run_starts?game=gundig")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ ...query("eldritch_shores"), interval_minutes: 15 })
+      .expect(403);
+  });
+
+  it("should not let ingest tokens run analytics queries", async () => {
+    const token = await createToken("ingest", ["*"]);
+
+    await request(app)
+      .post("/api/analytics/query")
+      .set("Authorization", `Bearer ${token}`)
+      .send(query("gundig"))
+      .expect(403);
+  });
+
+  it("should not let analysts use admin routes", async () => {
+    const token = await createToken("analyst", ["*"]);
+
+    await request(app)
+      .get("/api/admin/games/gundig/keys")
+      .set("Authorization", `Bearer ${token}`)
+      .expect(403);
+  });
+});
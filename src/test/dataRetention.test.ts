@@ -0,0 +1,135 @@
+import request from "supertest";
+import { TestDatabase } from "./utils";
+import { createApp } from "../app";
+import { purgeGameEvents } from "../dataRetention";
+import { connectDB, disconnectDB, refreshGameRegistry } from "../db";
+
+const ADMIN_KEY = "test-admin-key";
+
+describe("Data retention", () => {
+  let testDb: TestDatabase;
+  let app: any;
+
+  beforeAll(async () => {
+    process.env.ADMIN_API_KEY = ADMIN_KEY;
+
+    // Start in-memory database
+    testDb = new TestDatabase();
+    const mongoUri = await testDb.start();
+    await connectDB(mongoUri);
+
+    // Create test app
+    app = await createApp();
+  });
+
+  afterAll(async () => {
+    // Stop in-memory database
+    await disconnectDB();
+    await testDb.stop();
+  });
+
+  beforeEach(async () => {
+    // Clear all collections and games registered by earlier tests
+    await testDb.clearCollections();
+    await testDb.getCollection("games").deleteMany({ name: "new_jam_game" });
+    await refreshGameRegistry();
+  });
+
+  it("should report and purge events past the retention period", async () => {
+    await request(app)
+      .post("/api/admin/games")
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .send({ name: "new_jam_game" })
+      .expect(201);
+
+    const daysAgo = (days: number) =>
+      new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    await testDb.getCollection("new_jam_game_events").insertMany([
+      { player: "p1", event_name: "run_start", timestamp: daysAgo(100) },
+      { player: "p1", event_name: "run_start", timestamp: daysAgo(100) },
+      { player: "p1", event_name: "high_score", timestamp: daysAgo(100) },
+      { player: "p1", event_name: "run_start", timestamp: daysAgo(1) },
+    ]);
+
+    await request(app)
+      .patch("/api/admin/games/new_jam_game")
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .send({ retention: { event_days: 90, rollup: true } })
+      .expect(200);
+
+    const report = await request(app)
+      .get("/api/admin/games/new_jam_game/retention")
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .expect(200);
+    expect(report.body.events).toBe(2);
+    expect(report.body.keep_events).toEqual(["high_score"]);
+    expect(report.body.by_event_name).toEqual([
+      { event_name: "run_start", count: 2 },
+    ]);
+    expect(
+      await testDb.getCollection("new_jam_game_events").countDocuments()
+    ).toBe(4);
+
+    const purge = await request(app)
+      .post("/api/admin/games/new_jam_game/retention/purge")
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .expect(200);
+    expect(purge.body).toEqual({ rolled_up: 1, deleted: 2 });
+
+    // The purge just claimed the game
+    await request(app)
+      .post("/api/admin/games/new_jam_game/retention/purge")
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .expect(409);
+
+    const remaining = await testDb
+      .getCollection("new_jam_game_events")
+      .find()
+      .toArray();
+    expect(remaining.map((event) => event.event_name).sort()).toEqual([
+      "high_score",
+      "run_start",
+    ]);
+
+    const daily = await testDb
+      .getCollection("new_jam_game_daily_events")
+      .find()
+      .toArray();
+    expect(daily).toHaveLength(1);
+    expect(daily[0]).toMatchObject({
+      event_name: "run_start",
+      mode: null,
+      count: 2,
+    });
+  });
+
+  it("should not count events of a retried purge twice", async () => {
+    const timestamp = new Date("2020-01-01T12:00:00Z");
+    await testDb.getCollection("gundig_events").insertMany([
+      // Counted by a purge that failed before deleting them
+      { player: "p1", event_name: "run_start", timestamp, purge_id: "failed" },
+      { player: "p1", event_name: "run_start", timestamp, purge_id: "failed" },
+      { player: "p1", event_name: "run_start", timestamp },
+    ]);
+    await testDb.getCollection("gundig_daily_events").insertOne({
+      day: new Date("2020-01-01T00:00:00Z"),
+      event_name: "run_start",
+      mode: null,
+      count: 2,
+      purge_ids: ["failed"],
+    });
+
+    const result = await purgeGameEvents("gundig", {
+      event_days: 90,
+      rollup: true,
+    });
+    expect(result.data?.deleted).toBe(3);
+
+    const daily = await testDb
+      .getCollection("gundig_daily_events")
+      .find()
+      .toArray();
+    expect(daily).toHaveLength(1);
+    expect(daily[0].count).toBe(3);
+  });
+});
@@ -0,0 +1,59 @@
+import { validatePayload } from "../eventSchemas";
+import { PayloadSchema } from "../types";
+
+const deathSchema: PayloadSchema = {
+  type: "object",
+  required: ["level", "cause"],
+  additionalProperties: false,
+  properties: {
+    level: { type: "integer", minimum: 1 },
+    cause: { type: "string", enum: ["fall", "enemy", "drowned"] },
+    position: { type: "array", items: { type: "number" }, maxItems: 3 },
+  },
+};
+
+describe("validatePayload", () => {
+  it("should accept payloads that match the schema", () => {
+    expect(
+      validatePayload(deathSchema, {
+        level: 3,
+        cause: "enemy",
+        position: [1.5, 2, 0],
+      })
+    ).toEqual([]);
+  });
+
+  it("should report typos, wrong types and missing fields", () => {
+    expect(validatePayload(deathSchema, { levle: 3, cause: "lava" })).toEqual([
+      "data.level is required",
+      "data.levle is not allowed",
+      "data.cause must be one of fall, enemy, drowned",
+    ]);
+    expect(validatePayload(deathSchema, { level: "3", cause: "fall" })).toEqual(
+      ["data.level must be of type integer"]
+    );
+  });
+
+  it("should check nested arrays and numeric limits", () => {
+    expect(
+      validatePayload(deathSchema, {
+        level: 0,
+        cause: "fall",
+        position: [1, "2", 3, 4],
+      })
+    ).toEqual([
+      "data.level must be at least 1",
+      "data.position must have at most 3 items",
+      "data.position.1 must be of type number",
+    ]);
+  });
+
+  it("should allow additional fields unless forbidden", () => {
+    expect(
+      validatePayload(
+        { type: "object", properties: { score: { type: "number" } } },
+        { score: 10.5, combo: 3 }
+      )
+    ).toEqual([]);
+  });
+});
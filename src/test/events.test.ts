@@ -0,0 +1,326 @@
+import request from "supertest";
+import { TestDatabase, createTestEvent } from "./utils";
+import { createApp } from "../app";
+import * as db from "../db";
+import {
+  connectDB,
+  disconnectDB,
+  rebuildPlayerSummaries,
+  updateGame,
+} from "../db";
+
+describe("Events API", () => {
+  let testDb: TestDatabase;
+  let app: any;
+
+  beforeAll(async () => {
+    // Start in-memory database
+    testDb = new TestDatabase();
+    const mongoUri = await testDb.start();
+    await connectDB(mongoUri);
+
+    // Create test app
+    app = await createApp();
+  });
+
+  afterAll(async () => {
+    // Stop in-memory database
+    await disconnectDB();
+    await testDb.stop();
+  });
+
+  beforeEach(async () => {
+    // Clear all collections before each test
+    await testDb.clearCollections();
+  });
+
+  describe("POST /api/events", () => {
+    it("should not store a replayed event twice", async () => {
+      const event = createTestEvent({
+        event_id: "evt-1",
+        game: "eldritch_shores",
+        mode: "classic",
+        player: "123-456",
+        run: "abc-def",
+        event_name: "high_score",
+        data: {
+          score: 1500,
+          player_name: "player1",
+        },
+      });
+
+      await request(app).post("/api/events").send(event).expect(201);
+      const response = await request(app)
+        .post("/api/events")
+        .send(event)
+        .expect(200);
+      expect(response.body.message).toBe("Event already recorded");
+
+      const eventsCollection = testDb.getCollection("eldritch_shores_events");
+      expect(await eventsCollection.countDocuments()).toBe(1);
+
+      const scoresCollection = testDb.getCollection("eldritch_shores_scores");
+      expect(await scoresCollection.countDocuments()).toBe(1);
+    });
+
+    it("should answer 500 without a score when the event is not stored", async () => {
+      const insertEvent = jest
+        .spyOn(db, "insertEvent")
+        .mockResolvedValue({ success: false, error: "Write failed" });
+
+      try {
+        const response = await request(app)
+          .post("/api/events")
+          .send(
+            createTestEvent({
+              game: "eldritch_shores",
+              mode: "classic",
+              player: "123-456",
+              run: "abc-def",
+              event_name: "high_score",
+              data: { score: 1500, player_name: "player1" },
+            })
+          )
+          .expect(500);
+        expect(response.body.error).toBe("Database error");
+      } finally {
+        insertEvent.mockRestore();
+      }
+
+      const scoresCollection = testDb.getCollection("eldritch_shores_scores");
+      expect(await scoresCollection.countDocuments()).toBe(0);
+    });
+
+    it("should summarize the run and the player's activity", async () => {
+      const base = {
+        game: "eldritch_shores",
+        mode: "classic",
+        player: "123-456",
+        run: "run-1",
+      };
+      await request(app)
+        .post("/api/events")
+        .send({
+          ...base,
+          event_name: "run_start",
+          data: {},
+          timestamp: "2024-05-01T10:00:00Z",
+        })
+        .expect(201);
+      await request(app)
+        .post("/api/events")
+        .send({
+          ...base,
+          event_name: "high_score",
+          data: { score: 1500, player_name: "player1" },
+          timestamp: "2024-05-01T10:05:00Z",
+        })
+        .expect(201);
+
+      const run = await testDb
+        .getCollection("eldritch_shores_runs")
+        .findOne({ run: "run-1" });
+      expect(run).toMatchObject({
+        player: "123-456",
+        mode: "classic",
+        started_at: new Date("2024-05-01T10:00:00Z"),
+        ended_at: new Date("2024-05-01T10:05:00Z"),
+        event_count: 2,
+        last_event_name: "high_score",
+        final_score: 1500,
+      });
+
+      const players = testDb.getCollection("eldritch_shores_players");
+      expect(
+        await players.findOne({ player: "123-456", mode: null })
+      ).toMatchObject({ event_count: 2, run_count: 1 });
+      expect(
+        await players.findOne({ player: "123-456", mode: "classic" })
+      ).toMatchObject({ event_count: 2, run_count: 1 });
+    });
+
+    it("should count interleaved runs once per run", async () => {
+      for (const run of ["run-1", "run-2", "run-1"]) {
+        await request(app)
+          .post("/api/events")
+          .send(
+            createTestEvent({
+              game: "eldritch_shores",
+              mode: "classic",
+              player: "123-456",
+              run,
+              event_name: "level_up",
+              data: {},
+            })
+          )
+          .expect(201);
+      }
+
+      const players = testDb.getCollection("eldritch_shores_players");
+      expect(
+        await players.findOne({ player: "123-456", mode: null })
+      ).toMatchObject({ event_count: 3, run_count: 2 });
+
+      await rebuildPlayerSummaries("eldritch_shores");
+      expect(
+        await players.findOne({ player: "123-456", mode: null })
+      ).toMatchObject({ event_count: 3, run_count: 2 });
+    });
+
+    it("should keep apart the runs of players reusing a run id", async () => {
+      for (const player of ["123-456", "789-012"]) {
+        await request(app)
+          .post("/api/events")
+          .send(
+            createTestEvent({
+              game: "eldritch_shores",
+              mode: "classic",
+              player,
+              run: "run-1",
+              event_name: "run_start",
+              data: {},
+            })
+          )
+          .expect(201);
+      }
+
+      const runs = await testDb
+        .getCollection("eldritch_shores_runs")
+        .find({ run: "run-1" })
+        .toArray();
+      expect(runs.map((run) => run.player).sort()).toEqual([
+        "123-456",
+        "789-012",
+      ]);
+      expect(runs.every((run) => run.event_count === 1)).toBe(true);
+    });
+  });
+
+  describe("score rules", () => {
+    afterEach(async () => {
+      await updateGame("eldritch_shores", { score_rules: [] });
+    });
+
+    it("should flag scores that break the game's rules", async () => {
+      await updateGame("eldritch_shores", {
+        score_rules: [{ mode: "classic", max_score: 10000 }],
+      });
+
+      const event = createTestEvent({
+        game: "eldritch_shores",
+        mode: "classic",
+        player: "123-456",
+        run: "abc-def",
+        event_name: "high_score",
+        data: {
+          score: 99999999,
+          player_name: "cheater",
+        },
+      });
+      await request(app).post("/api/events").send(event).expect(201);
+
+      const scoresCollection = testDb.getCollection("eldritch_shores_scores");
+      expect(await scoresCollection.countDocuments()).toBe(0);
+
+      const eventsCollection = testDb.getCollection("eldritch_shores_events");
+      const storedEvent = await eventsCollection.findOne();
+      expect(storedEvent?.flagged.reasons).toEqual([
+        "Score is above the maximum of 10000",
+      ]);
+    });
+
+    it("should require the configured events earlier in the run", async () => {
+      await updateGame("eldritch_shores", {
+        score_rules: [{ required_events: ["run_start"] }],
+      });
+
+      const events = [
+        createTestEvent({
+          game: "eldritch_shores",
+          mode: "classic",
+          player: "123-456",
+          run: "abc-def",
+          event_name: "run_start",
+        }),
+        createTestEvent({
+          game: "eldritch_shores",
+          mode: "classic",
+          player: "123-456",
+          run: "abc-def",
+          event_name: "high_score",
+          data: {
+            score: 1500,
+            player_name: "player1",
+          },
+        }),
+      ];
+      await request(app).post("/api/events/batch").send(events).expect(200);
+
+      const scoresCollection = testDb.getCollection("eldritch_shores_scores");
+      expect(await scoresCollection.countDocuments()).toBe(1);
+    });
+  });
+
+  describe("POST /api/events/batch", () => {
+    it("should store valid events and report the invalid ones", async () => {
+      const events = [
+        createTestEvent({
+          game: "eldritch_shores",
+          mode: "classic",
+          player: "123-456",
+          run: "abc-def",
+          event_name: "run_start",
+        }),
+        createTestEvent({
+          game: "unsupported_game",
+          player: "123-456",
+          event_name: "run_start",
+        }),
+        createTestEvent({
+          game: "gundig",
+          player: "123-456",
+        }),
+        createTestEvent({
+          game: "eldritch_shores",
+          mode: "classic",
+          player: "123-456",
+          run: "abc-def",
+          event_name: "high_score",
+          data: {
+            score: 1500,
+            player_name: "player1",
+          },
+        }),
+      ];
+
+      const response = await request(app)
+        .post("/api/events/batch")
+        .send(events)
+        .expect(200);
+
+      expect(response.body.recorded).toBe(2);
+      expect(response.body.failed).toBe(2);
+      expect(response.body.results.map((result: any) => result.status)).toEqual(
+        ["recorded", "rejected", "rejected", "recorded"]
+      );
+      expect(response.body.results[1].error).toBe("Invalid game");
+      expect(response.body.results[2].error).toBe("Invalid event data");
+
+      const eventsCollection = testDb.getCollection("eldritch_shores_events");
+      expect(await eventsCollection.countDocuments()).toBe(2);
+
+      const scoresCollection = testDb.getCollection("eldritch_shores_scores");
+      const storedScore = await scoresCollection.findOne();
+      expect(storedScore?.score).toBe(1500);
+    });
+
+    it("should reject an empty batch", async () => {
+      const response = await request(app)
+        .post("/api/events/batch")
+        .send([])
+        .expect(400);
+
+      expect(response.body.error).toBe("Invalid batch data");
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { flattenData, toCsvRow } from "../export";
+
+describe("data export", () => {
+  it("should flatten nested data into dot paths", () => {
+    expect(
+      flattenData({
+        level: 3,
+        boss: { name: "Hydra", phase: { index: 2 } },
+        items: ["sword", "shield"],
+        empty: null,
+      })
+    ).toEqual({
+      level: 3,
+      "boss.name": "Hydra",
+      "boss.phase.index": 2,
+      items: ["sword", "shield"],
+      empty: null,
+    });
+  });
+
+  it("should quote CSV fields that need it", () => {
+    expect(
+      toCsvRow([
+        "plain",
+        'say "hi"',
+        "a,b",
+        "two\nlines",
+        undefined,
+        null,
+        42,
+        false,
+        new Date(Date.UTC(2024, 4, 1)),
+        ["a", "b"],
+      ])
+    ).toBe(
+      'plain,"say ""hi""","a,b","two\nlines",,,42,false,2024-05-01T00:00:00.000Z,"[""a"",""b""]"\n'
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { getFunnelDepth, summarizeFunnel } from "../funnel";
+
+const at = (minutes: number) => new Date(Date.UTC(2024, 4, 1, 0, minutes));
+
+const event = (event_name: string, minutes: number, data = {}) => ({
+  event_name,
+  data,
+  timestamp: at(minutes),
+});
+
+const steps = [
+  { event_name: "run_start" },
+  { event_name: "level_complete", data: { level: 2 } },
+  { event_name: "boss_reached" },
+];
+
+describe("funnel analysis", () => {
+  it("should count steps reached in order", () => {
+    const events = [
+      event("run_start", 0),
+      event("boss_reached", 1),
+      event("level_complete", 2, { level: 1 }),
+      event("level_complete", 3, { level: 2 }),
+    ];
+
+    expect(getFunnelDepth(events, steps, 60 * 60000)).toBe(2);
+  });
+
+  it("should only count steps within the window of the first step", () => {
+    const events = [
+      event("run_start", 0),
+      event("level_complete", 5, { level: 2 }),
+      event("boss_reached", 20),
+    ];
+
+    expect(getFunnelDepth(events, steps, 10 * 60000)).toBe(2);
+    expect(getFunnelDepth(events, steps, 30 * 60000)).toBe(3);
+  });
+
+  it("should use the first step that gets furthest", () => {
+    const events = [
+      event("run_start", 0),
+      event("run_start", 100),
+      event("level_complete", 101, { level: 2 }),
+      event("boss_reached", 102),
+    ];
+
+    expect(getFunnelDepth(events, steps, 10 * 60000)).toBe(3);
+    expect(getFunnelDepth([event("boss_reached", 0)], steps, 60000)).toBe(0);
+  });
+
+  it("should report counts, conversion and drop-off per step", () => {
+    expect(summarizeFunnel([3, 1, 2, 1], steps)).toEqual([
+      {
+        step: 0,
+        event_name: "run_start",
+        count: 4,
+        conversion_rate: 1,
+        step_conversion_rate: 1,
+        drop_off: 0,
+      },
+      {
+        step: 1,
+        event_name: "level_complete",
+        count: 2,
+        conversion_rate: 0.5,
+        step_conversion_rate: 0.5,
+        drop_off: 2,
+      },
+      {
+        step: 2,
+        event_name: "boss_reached",
+        count: 1,
+        conversion_rate: 0.25,
+        step_conversion_rate: 0.5,
+        drop_off: 1,
+      },
+    ]);
+  });
+});
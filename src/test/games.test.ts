@@ -0,0 +1,124 @@
+import request from "supertest";
+import { TestDatabase, createTestEvent } from "./utils";
+import { createApp } from "../app";
+import { connectDB, disconnectDB, refreshGameRegistry } from "../db";
+
+const ADMIN_KEY = "test-admin-key";
+
+describe("Games Admin API", () => {
+  let testDb: TestDatabase;
+  let app: any;
+
+  beforeAll(async () => {
+    process.env.ADMIN_API_KEY = ADMIN_KEY;
+
+    // Start in-memory database
+    testDb = new TestDatabase();
+    const mongoUri = await testDb.start();
+    await connectDB(mongoUri);
+
+    // Create test app
+    app = await createApp();
+  });
+
+  afterAll(async () => {
+    // Stop in-memory database
+    await disconnectDB();
+    await testDb.stop();
+  });
+
+  beforeEach(async () => {
+    // Clear all collections and games registered by earlier tests
+    await testDb.clearCollections();
+    await testDb.getCollection("games").deleteMany({ name: "new_jam_game" });
+    await refreshGameRegistry();
+  });
+
+  it("should reject requests without a valid admin token", async () => {
+    await request(app).get("/api/admin/games").expect(401);
+    await request(app)
+      .get("/api/admin/games")
+      .set("Authorization", "Bearer wrong-key")
+      .expect(401);
+  });
+
+  it("should register a game and accept events for it", async () => {
+    await request(app)
+      .post("/api/admin/games")
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .send({ name: "new_jam_game", display_name: "New Jam Game" })
+      .expect(201);
+
+    const collections = await testDb.db
+      .listCollections({ name: "new_jam_game_events" })
+      .toArray();
+    expect(collections).toHaveLength(1);
+
+    const event = createTestEvent({
+      game: "new_jam_game",
+      player: "123-456",
+      event_name: "run_start",
+    });
+    await request(app).post("/api/events").send(event).expect(201);
+  });
+
+  it("should return 409 when registering an existing game", async () => {
+    const game = { name: "new_jam_game" };
+    await request(app)
+      .post("/api/admin/games")
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .send(game)
+      .expect(201);
+
+    const response = await request(app)
+      .post("/api/admin/games")
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .send(game)
+      .expect(409);
+    expect(response.body.error).toBe("Game exists");
+  });
+
+  it("should reject events for modes that are not allowed", async () => {
+    await request(app)
+      .post("/api/admin/games")
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .send({ name: "new_jam_game", modes: ["classic"] })
+      .expect(201);
+
+    const event = createTestEvent({
+      game: "new_jam_game",
+      mode: "endless",
+      player: "123-456",
+      event_name: "run_start",
+    });
+    const response = await request(app)
+      .post("/api/events")
+      .send(event)
+      .expect(400);
+    expect(response.body.error).toBe("Invalid mode");
+  });
+
+  it("should stop accepting events once a game is archived", async () => {
+    await request(app)
+      .post("/api/admin/games")
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .send({ name: "new_jam_game" })
+      .expect(201);
+
+    await request(app)
+      .delete("/api/admin/games/new_jam_game")
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .expect(200);
+
+    const event = createTestEvent({
+      game: "new_jam_game",
+      player: "123-456",
+      event_name: "run_start",
+    });
+    const response = await request(app)
+      .post("/api/events")
+      .send(event)
+      .expect(400);
+    expect(response.body.error).toBe("Invalid game");
+  });
+});
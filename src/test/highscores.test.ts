@@ -119,6 +119,141 @@ describe("High Scores API", () => {
       expect(highScores[2].score).toBe(1000);
       expect(highScores[2].player_name).toBe("player2");
     });
+
+    it("should mask blocked words in the name served with the score", async () => {
+      process.env.BLOCKED_WORDS = "badword";
+      try {
+        const event = createTestEvent({
+          game: "eldritch_shores",
+          mode: "classic",
+          player: "123-456",
+          run: "abc-def",
+          event_name: "high_score",
+          data: {
+            score: 1500,
+            player_name: "xBadWordx",
+          },
+        });
+
+        await request(app).post("/api/events").send(event).expect(201);
+      } finally {
+        delete process.env.BLOCKED_WORDS;
+      }
+
+      const response = await request(app)
+        .get("/api/scores/eldritch_shores/classic")
+        .expect(200);
+      expect(response.body[0].player_name).toBe("x*******x");
+      expect(response.body[0].data.player_name).toBe("x*******x");
+
+      const storedEvent = await testDb
+        .getCollection("eldritch_shores_events")
+        .findOne();
+      expect(storedEvent?.data.player_name).toBe("x*******x");
+    });
+  });
+
+  describe("leaderboard queries", () => {
+    const postScore = async (player: string, run: string, score: number) => {
+      const event = createTestEvent({
+        game: "eldritch_shores",
+        mode: "classic",
+        player,
+        run,
+        event_name: "high_score",
+        data: {
+          score,
+          player_name: player,
+        },
+      });
+      await request(app).post("/api/events").send(event).expect(201);
+    };
+
+    beforeEach(async () => {
+      await postScore("alice", "run-1", 5000);
+      await postScore("alice", "run-2", 4000);
+      await postScore("bob", "run-3", 4500);
+      await postScore("carol", "run-4", 3000);
+    });
+
+    it("should keep only each player's best score", async () => {
+      const response = await request(app)
+        .get("/api/scores/eldritch_shores/classic?per_player=true")
+        .expect(200);
+
+      expect(response.body.map((score: any) => score.score)).toEqual([
+        5000, 4500, 3000,
+      ]);
+    });
+
+    it("should return a player's rank and neighbours", async () => {
+      const response = await request(app)
+        .get("/api/scores/eldritch_shores/classic/rank")
+        .query({ player: "bob", per_player: true, neighbors: 1 })
+        .expect(200);
+
+      expect(response.body.rank).toBe(2);
+      expect(response.body.total).toBe(3);
+      expect(response.body.entry.score).toBe(4500);
+      expect(response.body.above.map((score: any) => score.score)).toEqual([
+        5000,
+      ]);
+      expect(response.body.below.map((score: any) => score.score)).toEqual([
+        3000,
+      ]);
+    });
+
+    it("should rank equal scores by the board's tie-break", async () => {
+      await postScore("dave", "run-5", 4500);
+
+      const response = await request(app)
+        .get("/api/scores/eldritch_shores/classic/rank")
+        .query({ player: "dave", per_player: true, neighbors: 0 })
+        .expect(200);
+
+      // Bob's 4500 was recorded first, so it stays ahead of Dave's
+      expect(response.body.rank).toBe(3);
+      expect(response.body.above).toEqual([]);
+      expect(response.body.below).toEqual([]);
+    });
+
+    it("should page through the board with a cursor", async () => {
+      const firstPage = await request(app)
+        .get("/api/scores/eldritch_shores/classic")
+        .query({ format: "page", limit: 2 })
+        .expect(200);
+
+      expect(firstPage.body.total).toBe(4);
+      expect(firstPage.body.entries.map((score: any) => score.score)).toEqual([
+        5000, 4500,
+      ]);
+
+      const secondPage = await request(app)
+        .get("/api/scores/eldritch_shores/classic")
+        .query({ format: "page", limit: 2, cursor: firstPage.body.next_cursor })
+        .expect(200);
+
+      expect(secondPage.body.entries.map((score: any) => score.score)).toEqual([
+        4000, 3000,
+      ]);
+    });
+
+    it("should sort ascending when requested", async () => {
+      const response = await request(app)
+        .get("/api/scores/eldritch_shores/classic?order=asc")
+        .expect(200);
+
+      expect(response.body.map((score: any) => score.score)).toEqual([
+        3000, 4000, 4500, 5000,
+      ]);
+    });
+
+    it("should return 404 for a player without a score", async () => {
+      await request(app)
+        .get("/api/scores/eldritch_shores/classic/rank")
+        .query({ player: "dave" })
+        .expect(404);
+    });
   });
 
   it("should return empty array when no scores exist for game/mode", async () => {
@@ -0,0 +1,94 @@
+import { ObjectId } from "mongodb";
+import {
+  decodeLeaderboardCursor,
+  encodeLeaderboardCursor,
+  getWindowStart,
+  isValidTimeZone,
+} from "../leaderboard";
+
+describe("getWindowStart", () => {
+  // Wednesday 2025-03-12 15:30 UTC
+  const now = new Date("2025-03-12T15:30:00.000Z");
+
+  it("should return undefined for all-time boards", () => {
+    expect(getWindowStart("all-time", now)).toBeUndefined();
+  });
+
+  it("should start daily boards at midnight UTC by default", () => {
+    expect(getWindowStart("daily", now)?.toISOString()).toBe(
+      "2025-03-12T00:00:00.000Z"
+    );
+  });
+
+  it("should start daily boards at midnight in the given time zone", () => {
+    expect(
+      getWindowStart("daily", now, "America/New_York")?.toISOString()
+    ).toBe("2025-03-12T04:00:00.000Z");
+    expect(getWindowStart("daily", now, "Asia/Tokyo")?.toISOString()).toBe(
+      "2025-03-12T15:00:00.000Z"
+    );
+  });
+
+  it("should start weekly boards on the configured day", () => {
+    expect(getWindowStart("weekly", now)?.toISOString()).toBe(
+      "2025-03-10T00:00:00.000Z"
+    );
+    expect(getWindowStart("weekly", now, "UTC", 0)?.toISOString()).toBe(
+      "2025-03-09T00:00:00.000Z"
+    );
+    expect(getWindowStart("weekly", now, "UTC", 3)?.toISOString()).toBe(
+      "2025-03-12T00:00:00.000Z"
+    );
+  });
+
+  it("should handle a daylight saving change inside the window", () => {
+    // US clocks moved forward on 2025-03-09, the week started before that
+    expect(
+      getWindowStart("weekly", now, "America/New_York", 0)?.toISOString()
+    ).toBe("2025-03-09T05:00:00.000Z");
+  });
+
+  it("should start monthly boards on the first of the month", () => {
+    expect(getWindowStart("monthly", now, "Europe/Berlin")?.toISOString()).toBe(
+      "2025-02-28T23:00:00.000Z"
+    );
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("should accept IANA time zones and reject unknown ones", () => {
+    expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
+
+describe("leaderboard cursors", () => {
+  it("should decode an encoded cursor", () => {
+    const id = new ObjectId();
+    const timestamp = new Date("2025-03-12T15:30:00.000Z");
+    const cursor = encodeLeaderboardCursor({
+      _id: id,
+      game: "gundig",
+      mode: "classic",
+      player: "123-456",
+      run: "abc-def",
+      player_name: "player1",
+      score: 1500,
+      data: {},
+      timestamp,
+    });
+
+    expect(decodeLeaderboardCursor(cursor)).toEqual({
+      score: 1500,
+      timestamp,
+      id,
+    });
+  });
+
+  it("should reject malformed cursors", () => {
+    expect(decodeLeaderboardCursor("not-a-cursor")).toBeUndefined();
+    expect(
+      decodeLeaderboardCursor(Buffer.from("[1, 2]").toString("base64url"))
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,217 @@
+import http from "http";
+import { AddressInfo } from "net";
+import request from "supertest";
+import { TestDatabase, createTestEvent } from "./utils";
+import { createApp } from "../app";
+import * as db from "../db";
+import { connectDB, disconnectDB } from "../db";
+
+const ADMIN_KEY = "test-admin-key";
+
+interface LiveStream {
+  messages: { event: string; data: any }[];
+  status?: number;
+  close: () => void;
+}
+
+// Open a Server-Sent Events stream and collect its messages
+const openStream = (server: http.Server, path: string) => {
+  const { port } = server.address() as AddressInfo;
+  const messages: LiveStream["messages"] = [];
+  let buffer = "";
+
+  return new Promise<LiveStream>((resolve, reject) => {
+    const req = http.get(
+      {
+        port,
+        path,
+        headers: { Authorization: `Bearer ${ADMIN_KEY}` },
+      },
+      (res) => {
+        res.setEncoding("utf8");
+        res.on("data", (chunk: string) => {
+          buffer += chunk;
+          const parts = buffer.split("\n\n");
+          buffer = parts.pop()!;
+          for (const part of parts) {
+            const event = /^event: (.*)$/m.exec(part)?.[1];
+            const data = /^data: (.*)$/m.exec(part)?.[1];
+            if (event && data) {
+              messages.push({ event, data: JSON.parse(data) });
+            }
+          }
+        });
+        resolve({
+          messages,
+          status: res.statusCode,
+          close: () => req.destroy(),
+        });
+      }
+    );
+    req.on("error", reject);
+  });
+};
+
+const waitFor = async (check: () => boolean) => {
+  for (let i = 0; i < 50 && !check(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+describe("Live streams", () => {
+  let testDb: TestDatabase;
+  let app: any;
+  let server: http.Server;
+
+  beforeAll(async () => {
+    process.env.ADMIN_API_KEY = ADMIN_KEY;
+
+    // Start in-memory database
+    testDb = new TestDatabase();
+    const mongoUri = await testDb.start();
+    await connectDB(mongoUri);
+
+    // Create test app
+    app = await createApp();
+    server = app.listen(0);
+  });
+
+  afterAll(async () => {
+    server.close();
+    // Stop in-memory database
+    await disconnectDB();
+    await testDb.stop();
+  });
+
+  beforeEach(async () => {
+    await testDb.clearCollections();
+  });
+
+  it("should push recorded events matching the filters", async () => {
+    const stream = await openStream(
+      server,
+      "/api/analytics/live?game=eldritch_shores&event_name=run_start"
+    );
+
+    for (const event_name of ["level_complete", "run_start"]) {
+      await request(app)
+        .post("/api/events")
+        .send(
+          createTestEvent({
+            game: "eldritch_shores",
+            mode: "classic",
+            player: "123-456",
+            run: "abc-def",
+            event_name,
+            data: {},
+          })
+        )
+        .expect(201);
+    }
+
+    await waitFor(() => stream.messages.length > 0);
+    stream.close();
+
+    expect(stream.messages).toHaveLength(1);
+    expect(stream.messages[0]).toMatchObject({
+      event: "event",
+      data: { event_name: "run_start", player: "123-456" },
+    });
+  });
+
+  it("should push the leaderboard when a new score changes it", async () => {
+    const stream = await openStream(
+      server,
+      "/api/scores/eldritch_shores/classic/live?limit=2"
+    );
+    await waitFor(() => stream.messages.length > 0);
+    expect(stream.messages[0]).toEqual({ event: "leaderboard", data: [] });
+
+    await request(app)
+      .post("/api/events")
+      .send(
+        createTestEvent({
+          game: "eldritch_shores",
+          mode: "classic",
+          player: "123-456",
+          run: "abc-def",
+          event_name: "high_score",
+          data: { score: 1500, player_name: "player1" },
+        })
+      )
+      .expect(201);
+
+    await waitFor(() => stream.messages.length > 1);
+    stream.close();
+
+    expect(stream.messages[1].event).toBe("leaderboard");
+    expect(stream.messages[1].data).toHaveLength(1);
+    expect(stream.messages[1].data[0]).toMatchObject({
+      player_name: "player1",
+      score: 1500,
+    });
+  });
+
+  it("should query a leaderboard once for every stream watching it", async () => {
+    const path = "/api/scores/eldritch_shores/classic/live?limit=2";
+    const first = await openStream(server, path);
+    await waitFor(() => first.messages.length > 0);
+    const second = await openStream(server, path);
+    await waitFor(() => second.messages.length > 0);
+    expect(second.messages[0]).toEqual({ event: "leaderboard", data: [] });
+
+    const findHighScores = jest.spyOn(db, "findHighScores");
+    try {
+      await request(app)
+        .post("/api/events")
+        .send(
+          createTestEvent({
+            game: "eldritch_shores",
+            mode: "classic",
+            player: "123-456",
+            run: "abc-def",
+            event_name: "high_score",
+            data: { score: 1500, player_name: "player1" },
+          })
+        )
+        .expect(201);
+
+      await waitFor(
+        () => first.messages.length > 1 && second.messages.length > 1
+      );
+      // Score webhooks may query the board too, with a limit of 1
+      const refreshes = findHighScores.mock.calls.filter(
+        ([, , options]) => options?.limit === 2
+      );
+      expect(refreshes).toHaveLength(1);
+      expect(first.messages[1]).toEqual(second.messages[1]);
+      expect(first.messages[1].data[0]).toMatchObject({ score: 1500 });
+    } finally {
+      findHighScores.mockRestore();
+      first.close();
+      second.close();
+    }
+  });
+
+  it("should cap public streams per address apart from analytics", async () => {
+    const path = "/api/scores/eldritch_shores/classic/live";
+    const streams = [];
+    for (let i = 0; i < 5; i++) {
+      streams.push(await openStream(server, path));
+    }
+    expect(streams.every((stream) => stream.status === 200)).toBe(true);
+
+    const refused = await openStream(server, path);
+    expect(refused.status).toBe(429);
+    refused.close();
+
+    const analytics = await openStream(
+      server,
+      "/api/analytics/live?game=eldritch_shores"
+    );
+    expect(analytics.status).toBe(200);
+    analytics.close();
+
+    streams.forEach((stream) => stream.close());
+  });
+});
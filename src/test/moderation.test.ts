@@ -0,0 +1,39 @@
+import { maskBlockedWords, normalizeName } from "../moderation";
+
+describe("normalizeName", () => {
+  it("should lowercase and strip separators, accents and lookalikes", () => {
+    expect(normalizeName("B.4-d_W0rd").text).toBe("badword");
+    expect(normalizeName("Éclair").text).toBe("eclair");
+  });
+
+  it("should track where each letter came from", () => {
+    expect(normalizeName("a-b").positions).toEqual([0, 2]);
+    expect(normalizeName("\uFB00a").positions).toEqual([0, 0, 1]);
+  });
+});
+
+describe("maskBlockedWords", () => {
+  const blockedWords = ["badword"];
+
+  it("should return undefined for clean names", () => {
+    expect(maskBlockedWords("player1", blockedWords)).toBeUndefined();
+  });
+
+  it("should mask blocked words hidden with lookalikes and separators", () => {
+    expect(maskBlockedWords("xB4d.W0rdx", blockedWords)).toBe("x********x");
+  });
+
+  it("should mask every occurrence", () => {
+    expect(maskBlockedWords("badword badword", blockedWords)).toBe(
+      "******* *******"
+    );
+  });
+
+  it("should mask styled letters outside the BMP", () => {
+    expect(maskBlockedWords("x𝐛𝐚𝐝𝐰𝐨𝐫𝐝x", blockedWords)).toBe("x*******x");
+  });
+
+  it("should mask characters that expand into several letters", () => {
+    expect(maskBlockedWords("xstu\uFB00x", ["stuff"])).toBe("x****x");
+  });
+});
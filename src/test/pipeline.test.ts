@@ -0,0 +1,208 @@
+import { bindQueryParams, validatePipeline } from "../pipeline";
+
+describe("validatePipeline", () => {
+  it("should accept allowed stages and inject a final $limit", () => {
+    const result = validatePipeline([{ $match: { event_name: "run_start" } }]);
+
+    expect(result.rejections).toEqual([]);
+    expect(result.pipeline).toEqual([
+      { $match: { event_name: "run_start" } },
+      { $limit: 1000 },
+    ]);
+    expect(result.changes).toEqual([
+      { change: "Injected $limit: 1000 at the end" },
+    ]);
+  });
+
+  it("should reject dangerous and unknown operators with their stage index", () => {
+    const result = validatePipeline([
+      { $match: {} },
+      { $out: "stolen" },
+      { $facet: {} },
+    ]);
+
+    expect(result.rejections).toEqual([
+      { stage: 1, operator: "$out", reason: "Operator $out is not allowed" },
+      {
+        stage: 2,
+        operator: "$facet",
+        reason: "Unknown or unsupported operator $facet",
+      },
+    ]);
+  });
+
+  it("should reject JavaScript expressions anywhere in a stage", () => {
+    const result = validatePipeline([
+      {
+        $group: {
+          _id: null,
+          total: { $accumulator: { init: "function() {}" } },
+        },
+      },
+    ]);
+
+    expect(result.rejections).toEqual([
+      {
+        stage: 0,
+        operator: "$group",
+        reason: "Expression not allowed at $group.total.$accumulator",
+      },
+    ]);
+  });
+
+  it("should reject $out and $merge nested in a $lookup pipeline", () => {
+    const result = validatePipeline([
+      {
+        $lookup: { from: "gundig_events", as: "x", pipeline: [{ $out: "y" }] },
+      },
+    ]);
+
+    expect(result.rejections).toEqual([
+      {
+        stage: 0,
+        operator: "$lookup",
+        reason: "$out is not allowed inside $lookup.pipeline",
+      },
+    ]);
+  });
+
+  it("should reject lookups into collections that are not readable", () => {
+    const result = validatePipeline(
+      [{ $lookup: { from: "access_tokens", as: "tokens" } }],
+      { readableCollections: ["gundig_events", "gundig_scores"] }
+    );
+
+    expect(result.rejections[0].reason).toBe(
+      "Lookup into access_tokens is not allowed"
+    );
+  });
+
+  it("should reject over-limit values and stages beyond the maximum", () => {
+    const pipeline = [
+      { $limit: 5000 },
+      ...Array.from({ length: 10 }, () => ({ $match: {} })),
+    ];
+    const result = validatePipeline(pipeline);
+
+    expect(result.rejections).toEqual([
+      {
+        stage: 0,
+        operator: "$limit",
+        reason: "$limit exceeds the maximum of 1000",
+      },
+      {
+        stage: 10,
+        operator: "$match",
+        reason: "Pipeline exceeds the maximum of 10 stages",
+      },
+    ]);
+  });
+
+  it("should drop and clamp refused stages in lenient mode", () => {
+    const result = validatePipeline(
+      [{ $match: {} }, { $out: "stolen" }, { $limit: 5000 }],
+      { lenient: true }
+    );
+
+    expect(result.rejections).toEqual([]);
+    expect(result.pipeline).toEqual([{ $match: {} }, { $limit: 1000 }]);
+    expect(result.changes).toEqual([
+      {
+        stage: 1,
+        change: "Removed $out stage: Operator $out is not allowed",
+      },
+      {
+        stage: 2,
+        change: "Replaced $limit stage: $limit exceeds the maximum of 1000",
+      },
+    ]);
+  });
+
+  it("should limit $lookup results and $group output", () => {
+    const result = validatePipeline([
+      { $lookup: { from: "gundig_scores", as: "scores", pipeline: [] } },
+      { $group: { _id: "$player" } },
+    ]);
+
+    expect(result.pipeline).toEqual([
+      {
+        $lookup: {
+          from: "gundig_scores",
+          as: "scores",
+          pipeline: [{ $limit: 1000 }],
+        },
+      },
+      { $group: { _id: "$player" } },
+      { $limit: 10000 },
+    ]);
+    expect(result.changes.map((change) => change.stage)).toEqual([0, 1]);
+  });
+});
+
+describe("bindQueryParams", () => {
+  const pipeline = [
+    {
+      $match: {
+        mode: { $param: "mode" },
+        timestamp: { $gte: { $param: "since" } },
+      },
+    },
+    { $limit: { $param: "limit" } },
+  ];
+
+  it("should substitute typed values and defaults", () => {
+    const result = bindQueryParams(
+      pipeline,
+      [
+        { name: "mode", type: "string", required: true },
+        { name: "since", type: "date", required: true },
+        { name: "limit", type: "number", required: false, default: 10 },
+      ],
+      { mode: "hard", since: "2024-05-01T00:00:00Z" }
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.pipeline).toEqual([
+      {
+        $match: {
+          mode: "hard",
+          timestamp: { $gte: new Date("2024-05-01T00:00:00Z") },
+        },
+      },
+      { $limit: 10 },
+    ]);
+  });
+
+  it("should refuse values that could inject field paths or operators", () => {
+    const result = bindQueryParams(
+      pipeline,
+      [
+        { name: "mode", type: "string", required: true },
+        { name: "since", type: "date", required: true },
+        { name: "limit", type: "number", required: true },
+      ],
+      { mode: "$player", since: { $gt: 0 }, limit: "ten", extra: 1 }
+    );
+
+    expect(result.errors).toEqual([
+      { param: "extra", reason: "is not a parameter of this query" },
+      { param: "mode", reason: 'must not start with "$"' },
+      { param: "since", reason: "must be a date" },
+      { param: "limit", reason: "must be a number" },
+    ]);
+  });
+
+  it("should report missing and undeclared parameters", () => {
+    const result = bindQueryParams(
+      pipeline,
+      [{ name: "mode", type: "string", required: true }],
+      {}
+    );
+
+    expect(result.errors).toEqual([
+      { param: "mode", reason: "is required" },
+      { param: "since", reason: "is not declared" },
+      { param: "limit", reason: "is not declared" },
+    ]);
+  });
+});
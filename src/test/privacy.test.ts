@@ -0,0 +1,185 @@
+import request from "supertest";
+import { TestDatabase } from "./utils";
+import { createApp } from "../app";
+import { connectDB, disconnectDB } from "../db";
+
+const ADMIN_KEY = "test-admin-key";
+
+describe("Privacy API", () => {
+  let testDb: TestDatabase;
+  let app: any;
+
+  beforeAll(async () => {
+    process.env.ADMIN_API_KEY = ADMIN_KEY;
+
+    // Start in-memory database
+    testDb = new TestDatabase();
+    const mongoUri = await testDb.start();
+    await connectDB(mongoUri);
+
+    // Create test app
+    app = await createApp();
+  });
+
+  afterAll(async () => {
+    // Stop in-memory database
+    await disconnectDB();
+    await testDb.stop();
+  });
+
+  beforeEach(async () => {
+    await testDb.clearCollections();
+
+    const timestamp = new Date();
+    for (const game of ["eldritch_shores", "gundig"]) {
+      await testDb.getCollection(`${game}_events`).insertMany([
+        { game, player: "p1", run: "r1", event_name: "run_start", timestamp },
+        {
+          game,
+          player: "p1",
+          run: "r1",
+          event_name: "high_score",
+          data: { score: 10, player_name: "Alice" },
+          timestamp,
+        },
+        { game, player: "p2", run: "r2", event_name: "run_start", timestamp },
+      ]);
+      await testDb.getCollection(`${game}_scores`).insertOne({
+        game,
+        mode: "classic",
+        player: "p1",
+        run: "r1",
+        player_name: "Alice",
+        score: 10,
+        data: { score: 10, player_name: "Alice" },
+        timestamp,
+      });
+      await testDb.getCollection(`${game}_rollups`).insertMany([
+        {
+          view: "runs_per_player",
+          refreshed_at: timestamp,
+          data: { _id: "p1" },
+        },
+        {
+          view: "runs_per_player",
+          refreshed_at: timestamp,
+          data: { _id: "p2" },
+        },
+      ]);
+    }
+    await testDb.getCollection("webhook_deliveries").insertOne({
+      delivery_id: "d1",
+      webhook_id: "w1",
+      game: "gundig",
+      trigger: "event",
+      payload: {
+        event: {
+          player: "p1",
+          event_name: "high_score",
+          data: { score: 10, player_name: "Alice" },
+        },
+      },
+      player: "p1",
+      status: "delivered",
+      attempts: 1,
+      next_attempt_at: null,
+      created_at: timestamp,
+    });
+  });
+
+  it("should require an admin of every game", async () => {
+    await request(app).get("/api/admin/privacy/players/p1").expect(401);
+  });
+
+  it("should export a player's data from every game", async () => {
+    const response = await request(app)
+      .get("/api/admin/privacy/players/p1")
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .expect(200);
+
+    expect(Object.keys(response.body.games).sort()).toEqual([
+      "eldritch_shores",
+      "gundig",
+    ]);
+    expect(response.body.games.gundig.events).toHaveLength(2);
+    expect(response.body.games.gundig.scores).toHaveLength(1);
+
+    const requests = await request(app)
+      .get("/api/admin/privacy/requests?player=p1")
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .expect(200);
+    expect(requests.body).toHaveLength(1);
+    expect(requests.body[0]).toMatchObject({
+      request_id: response.body.request_id,
+      action: "export",
+    });
+  });
+
+  it("should erase a player's data and record the request", async () => {
+    const response = await request(app)
+      .post("/api/admin/privacy/players/p1/erase")
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .send({ reason: "Player asked by email" })
+      .expect(200);
+
+    expect(
+      response.body.changes.find(
+        (change: any) => change.game === "eldritch_shores"
+      )
+    ).toMatchObject({ events: 2, scores: 1 });
+
+    const events = testDb.getCollection("eldritch_shores_events");
+    expect(await events.countDocuments({ player: "p1" })).toBe(0);
+    expect(await events.countDocuments({ player: "p2" })).toBe(1);
+    expect(await testDb.getCollection("gundig_scores").countDocuments()).toBe(
+      0
+    );
+    expect(
+      await testDb.getCollection("webhook_deliveries").countDocuments()
+    ).toBe(0);
+    const rollups = await testDb
+      .getCollection("gundig_rollups")
+      .find()
+      .toArray();
+    expect(rollups.map((row) => row.data._id)).toEqual(["p2"]);
+
+    // The audit record does not keep the player id
+    const audit = await testDb.getCollection("privacy_requests").findOne({});
+    expect(audit).toMatchObject({ action: "erase", requested_by: "admin" });
+    expect(JSON.stringify(audit)).not.toContain('"p1"');
+  });
+
+  it("should pseudonymize a player's data across games", async () => {
+    await request(app)
+      .post("/api/admin/privacy/players/p1/pseudonymize")
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .expect(200);
+
+    const scores = await testDb
+      .getCollection("eldritch_shores_scores")
+      .find()
+      .toArray();
+    expect(scores).toHaveLength(1);
+    expect(scores[0].player).toMatch(/^anon_/);
+    expect(scores[0].player_name).toBe(scores[0].player);
+
+    const events = await testDb
+      .getCollection("gundig_events")
+      .find({ event_name: "high_score" })
+      .toArray();
+    expect(events[0].player).toBe(scores[0].player);
+    expect(events[0].data.player_name).toBe(scores[0].player);
+
+    const delivery = await testDb
+      .getCollection("webhook_deliveries")
+      .findOne({ delivery_id: "d1" });
+    expect(JSON.stringify(delivery)).not.toContain('"p1"');
+    expect(JSON.stringify(delivery)).not.toContain("Alice");
+
+    expect(
+      await testDb.getCollection("gundig_rollups").countDocuments({
+        "data._id": "p1",
+      })
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,68 @@
+import { createMemoryRateLimitStore } from "../rateLimit";
+
+describe("createMemoryRateLimitStore", () => {
+  const budget = { capacity: 3, refill_per_second: 1 };
+  const start = new Date("2025-03-12T15:30:00.000Z");
+  const after = (seconds: number) => new Date(start.getTime() + seconds * 1000);
+
+  it("should allow requests until the bucket is empty", async () => {
+    const store = createMemoryRateLimitStore();
+
+    for (let i = 0; i < 3; i++) {
+      expect((await store.consume("key", budget, 1, start)).allowed).toBe(true);
+    }
+
+    const result = await store.consume("key", budget, 1, start);
+    expect(result.allowed).toBe(false);
+    expect(result.retryAfter).toBe(1);
+  });
+
+  it("should refill tokens over time up to the capacity", async () => {
+    const store = createMemoryRateLimitStore();
+    await store.consume("key", budget, 3, start);
+
+    expect((await store.consume("key", budget, 2, after(1))).allowed).toBe(
+      false
+    );
+    expect((await store.consume("key", budget, 2, after(2))).allowed).toBe(
+      true
+    );
+    expect((await store.consume("key", budget, 4, after(100))).allowed).toBe(
+      false
+    );
+  });
+
+  it("should keep separate buckets per key", async () => {
+    const store = createMemoryRateLimitStore();
+    await store.consume("first", budget, 3, start);
+
+    expect((await store.consume("second", budget, 1, start)).allowed).toBe(
+      true
+    );
+  });
+
+  it("should forget the least recently used bucket when full", async () => {
+    const store = createMemoryRateLimitStore(2);
+    await store.consume("first", budget, 3, start);
+    await store.consume("second", budget, 3, start);
+    await store.consume("first", budget, 0, start);
+    await store.consume("third", budget, 3, start);
+
+    // "second" was evicted and starts full again, "first" was kept
+    expect((await store.consume("first", budget, 1, start)).allowed).toBe(
+      false
+    );
+    expect((await store.consume("second", budget, 1, start)).allowed).toBe(
+      true
+    );
+  });
+
+  it("should give refunded tokens back up to the capacity", async () => {
+    const store = createMemoryRateLimitStore();
+    await store.consume("key", budget, 3, start);
+    await store.refund("key", budget, 5, start);
+
+    expect((await store.consume("key", budget, 3, start)).allowed).toBe(true);
+    expect((await store.consume("key", budget, 1, start)).allowed).toBe(false);
+  });
+});
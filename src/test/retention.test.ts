@@ -0,0 +1,54 @@
+import { createRetentionMatrix } from "../players";
+
+const day = (date: number, hour = 12) =>
+  new Date(Date.UTC(2024, 4, date, hour));
+const midnight = (date: number) => new Date(Date.UTC(2024, 4, date));
+
+describe("retention matrix", () => {
+  it("should group players into daily cohorts by first seen day", () => {
+    const matrix = createRetentionMatrix("day", 3, "UTC");
+    matrix.add(day(1), [midnight(1), midnight(2), midnight(4)]);
+    matrix.add(day(1, 23), [midnight(1), midnight(3)]);
+    matrix.add(day(2), [midnight(2), midnight(9)]);
+
+    expect(matrix.getCohorts()).toEqual([
+      {
+        cohort: midnight(1),
+        size: 2,
+        retained: [2, 1, 1, 1],
+        rates: [1, 0.5, 0.5, 0.5],
+      },
+      {
+        cohort: midnight(2),
+        size: 1,
+        retained: [1, 0, 0, 0],
+        rates: [1, 0, 0, 0],
+      },
+    ]);
+  });
+
+  it("should use weekly cohorts starting on Monday", () => {
+    // 2024-05-06 is a Monday
+    const matrix = createRetentionMatrix("week", 2, "UTC");
+    matrix.add(day(8), [midnight(8), midnight(12), midnight(20)]);
+
+    expect(matrix.getCohorts()).toEqual([
+      {
+        cohort: midnight(6),
+        size: 1,
+        retained: [1, 0, 1],
+        rates: [1, 0, 1],
+      },
+    ]);
+  });
+
+  it("should bucket days in the requested time zone", () => {
+    const matrix = createRetentionMatrix("day", 1, "America/New_York");
+    // 02:00 UTC on May 2nd is still May 1st in New York
+    matrix.add(day(2, 2), [new Date(Date.UTC(2024, 4, 2, 4))]);
+
+    const [cohort] = matrix.getCohorts();
+    expect(cohort.cohort).toEqual(new Date(Date.UTC(2024, 4, 1, 4)));
+    expect(cohort.retained).toEqual([1, 1]);
+  });
+});
@@ -0,0 +1,57 @@
+import { getTimeBuckets } from "../timeseries";
+
+describe("getTimeBuckets", () => {
+  it("should cover the range with aligned hour buckets", () => {
+    expect(
+      getTimeBuckets(
+        "hour",
+        new Date("2024-05-01T10:30:00Z"),
+        new Date("2024-05-01T12:00:00Z")
+      )
+    ).toEqual([
+      new Date("2024-05-01T10:00:00Z"),
+      new Date("2024-05-01T11:00:00Z"),
+    ]);
+  });
+
+  it("should align hours to the time zone's offset", () => {
+    expect(
+      getTimeBuckets(
+        "hour",
+        new Date("2024-05-01T10:00:00Z"),
+        new Date("2024-05-01T11:00:00Z"),
+        "Asia/Kolkata"
+      )
+    ).toEqual([
+      new Date("2024-05-01T09:30:00Z"),
+      new Date("2024-05-01T10:30:00Z"),
+    ]);
+  });
+
+  it("should use local midnights across DST changes", () => {
+    expect(
+      getTimeBuckets(
+        "day",
+        new Date("2024-03-30T12:00:00Z"),
+        new Date("2024-04-01T00:00:00Z"),
+        "Europe/Berlin"
+      )
+    ).toEqual([
+      new Date("2024-03-29T23:00:00Z"),
+      new Date("2024-03-30T23:00:00Z"),
+      new Date("2024-03-31T22:00:00Z"),
+    ]);
+  });
+
+  it("should refuse ranges with too many buckets", () => {
+    expect(
+      getTimeBuckets(
+        "minute",
+        new Date("2024-05-01T00:00:00Z"),
+        new Date("2024-05-02T00:00:01Z"),
+        "UTC",
+        1440
+      )
+    ).toBeUndefined();
+  });
+});
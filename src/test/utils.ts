@@ -34,11 +34,13 @@ export class TestDatabase {
     }
   }
 
-  async clearCollections(): Promise<void> {
+  // The games registry is kept by default so the seeded games stay supported
+  async clearCollections(preserve: string[] = ["games"]): Promise<void> {
     if (!this.db) return;
 
     const collections = await this.db.listCollections().toArray();
     for (const collection of collections) {
+      if (preserve.includes(collection.name)) continue;
       await this.db.collection(collection.name).deleteMany({});
     }
   }
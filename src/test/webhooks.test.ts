@@ -0,0 +1,213 @@
+import http from "http";
+import { AddressInfo } from "net";
+import request from "supertest";
+import { TestDatabase, createTestEvent } from "./utils";
+import { createApp } from "../app";
+import { connectDB, disconnectDB } from "../db";
+import { signPayload } from "../auth";
+
+const ADMIN_KEY = "test-admin-key";
+
+const waitFor = async (check: () => boolean) => {
+  for (let i = 0; i < 50 && !check(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+describe("Webhooks", () => {
+  let testDb: TestDatabase;
+  let app: any;
+  let receiver: http.Server;
+  let receiverUrl: string;
+  let received: { headers: http.IncomingHttpHeaders; body: string }[];
+  let receiverStatus: number;
+
+  beforeAll(async () => {
+    process.env.ADMIN_API_KEY = ADMIN_KEY;
+
+    // Start in-memory database
+    testDb = new TestDatabase();
+    const mongoUri = await testDb.start();
+    await connectDB(mongoUri);
+
+    // Create test app
+    app = await createApp();
+
+    // Endpoint standing in for the tools notified by webhooks
+    receiver = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = receiverStatus;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => receiver.listen(0, resolve));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(async () => {
+    receiver.close();
+    // Stop in-memory database
+    await disconnectDB();
+    await testDb.stop();
+  });
+
+  beforeEach(async () => {
+    await testDb.clearCollections();
+    received = [];
+    receiverStatus = 200;
+  });
+
+  const addWebhook = async (trigger: object) => {
+    const response = await request(app)
+      .post("/api/admin/games/eldritch_shores/webhooks")
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .send({ url: receiverUrl, trigger })
+      .expect(201);
+    return response.body;
+  };
+
+  it("should send signed deliveries for matching events", async () => {
+    const webhook = await addWebhook({
+      type: "event",
+      event_names: ["boss_defeated"],
+    });
+
+    for (const event_name of ["run_start", "boss_defeated"]) {
+      await request(app)
+        .post("/api/events")
+        .send(
+          createTestEvent({
+            game: "eldritch_shores",
+            mode: "classic",
+            player: "123-456",
+            run: "abc-def",
+            event_name,
+            data: {},
+          })
+        )
+        .expect(201);
+    }
+
+    await waitFor(() => received.length > 0);
+    expect(received).toHaveLength(1);
+
+    const { headers, body } = received[0];
+    const timestamp = headers["x-signature-timestamp"] as string;
+    expect(headers["x-signature"]).toBe(
+      signPayload(webhook.secret, timestamp, Buffer.from(body))
+    );
+    expect(JSON.parse(body)).toMatchObject({
+      trigger: "event",
+      game: "eldritch_shores",
+      event: { event_name: "boss_defeated", player: "123-456" },
+    });
+  });
+
+  it("should notify a new top score", async () => {
+    await addWebhook({ type: "top_score", modes: ["classic"] });
+
+    for (const score of [1500, 900]) {
+      await request(app)
+        .post("/api/events")
+        .send(
+          createTestEvent({
+            game: "eldritch_shores",
+            mode: "classic",
+            player: "123-456",
+            run: `run-${score}`,
+            event_name: "high_score",
+            data: { score, player_name: "player1" },
+          })
+        )
+        .expect(201);
+    }
+
+    await waitFor(() => received.length > 0);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(received).toHaveLength(1);
+    expect(JSON.parse(received[0].body)).toMatchObject({
+      trigger: "top_score",
+      mode: "classic",
+      entry: { player_name: "player1", score: 1500 },
+    });
+  });
+
+  it("should only notify new versions the game registered", async () => {
+    await addWebhook({ type: "new_version" });
+    await request(app)
+      .patch("/api/admin/games/eldritch_shores")
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .send({ versions: ["1.1"] })
+      .expect(200);
+
+    for (const version of ["9.9.9", "1.1", "1.1"]) {
+      await request(app)
+        .post("/api/events")
+        .send(
+          createTestEvent({
+            game: "eldritch_shores",
+            mode: "classic",
+            player: "123-456",
+            run: "abc-def",
+            event_name: "run_start",
+            data: { version },
+          })
+        )
+        .expect(201);
+    }
+
+    await waitFor(() => received.length > 0);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(received).toHaveLength(1);
+    expect(JSON.parse(received[0].body)).toMatchObject({
+      trigger: "new_version",
+      version: "1.1",
+    });
+
+    await request(app)
+      .patch("/api/admin/games/eldritch_shores")
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .send({ versions: [] })
+      .expect(200);
+  });
+
+  it("should log test deliveries and schedule a retry when they fail", async () => {
+    const webhook = await addWebhook({ type: "new_version" });
+    receiverStatus = 500;
+
+    const response = await request(app)
+      .post(
+        `/api/admin/games/eldritch_shores/webhooks/${webhook.webhook_id}/test`
+      )
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .expect(200);
+    expect(response.body).toMatchObject({
+      trigger: "test",
+      status: "pending",
+      attempts: 1,
+      response_status: 500,
+    });
+    expect(new Date(response.body.next_attempt_at).getTime()).toBeGreaterThan(
+      Date.now()
+    );
+
+    const log = await request(app)
+      .get(
+        `/api/admin/games/eldritch_shores/webhooks/${webhook.webhook_id}/deliveries`
+      )
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .expect(200);
+    expect(log.body).toHaveLength(1);
+    expect(log.body[0].delivery_id).toBe(response.body.delivery_id);
+
+    // The secret is only returned when the webhook is created
+    const list = await request(app)
+      .get("/api/admin/games/eldritch_shores/webhooks")
+      .set("Authorization", `Bearer ${ADMIN_KEY}`)
+      .expect(200);
+    expect(list.body[0].secret).not.toBe(webhook.secret);
+  });
+});
@@ -0,0 +1,139 @@
+import { Request, Response } from "express";
+
+import { getQueryTimeBudget } from "./analytics";
+import { getGrant, hasAccess } from "./auth";
+import {
+  findEventTimeseries,
+  getSupportedGames,
+  QUERY_TIMEOUT_ERROR,
+} from "./db";
+import { getTimeZoneOffset, getWindowStart } from "./leaderboard";
+import {
+  TimeseriesInterval,
+  TimeseriesQuery,
+  timeseriesQuerySchema,
+} from "./types";
+import { formatValidationErrors, validateInput } from "./validation";
+
+// Maximum buckets in one series (a day of minutes, or about two months of hours)
+const MAX_TIMESERIES_BUCKETS = 1440;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const INTERVAL_MS: Record<TimeseriesInterval, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: MS_PER_DAY,
+};
+
+// Start of every minute, hour or day (in timeZone, matching $dateTrunc) that
+// overlaps [from, to), or undefined when there would be more than maxBuckets
+export const getTimeBuckets = (
+  interval: TimeseriesInterval,
+  from: Date,
+  to: Date,
+  timeZone: string = "UTC",
+  maxBuckets: number = Infinity
+): Date[] | undefined => {
+  const buckets: Date[] = [];
+
+  if (interval === "day") {
+    // Days are 23 to 25 hours long, so step to the middle of the next day
+    // and go back to its midnight
+    let day = getWindowStart("daily", from, timeZone)!;
+    while (day < to) {
+      if (buckets.length >= maxBuckets) return undefined;
+      buckets.push(day);
+      day = getWindowStart(
+        "daily",
+        new Date(day.getTime() + 1.5 * MS_PER_DAY),
+        timeZone
+      )!;
+    }
+    return buckets;
+  }
+
+  const step = INTERVAL_MS[interval];
+  const wallClock = from.getTime() + getTimeZoneOffset(from, timeZone);
+  const first = from.getTime() - (((wallClock % step) + step) % step);
+  for (let time = first; time < to.getTime(); time += step) {
+    if (buckets.length >= maxBuckets) return undefined;
+    buckets.push(new Date(time));
+  }
+  return buckets;
+};
+
+export const getTimeseries = async (req: Request, res: Response) => {
+  const validationResult = await validateInput<TimeseriesQuery>(
+    timeseriesQuerySchema,
+    req.query
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid query parameters",
+      message: "Query validation failed",
+      details: errors,
+    });
+  }
+
+  const query = validationResult.data;
+  if (!getSupportedGames().includes(query.game)) {
+    return res.status(400).json({
+      error: "Invalid game",
+      message: "Game is not supported",
+    });
+  }
+
+  const to = query.to ?? new Date();
+  const buckets = getTimeBuckets(
+    query.interval,
+    query.from,
+    to,
+    query.timezone,
+    MAX_TIMESERIES_BUCKETS
+  );
+  if (!buckets) {
+    return res.status(400).json({
+      error: "Invalid query parameters",
+      message: `Time range spans more than ${MAX_TIMESERIES_BUCKETS} buckets, use a larger interval`,
+    });
+  }
+
+  const maxTimeMS = getQueryTimeBudget(
+    hasAccess(getGrant(res), "admin", query.game)
+  );
+  const result = await findEventTimeseries(
+    query.game,
+    { ...query, to },
+    maxTimeMS
+  );
+  if (!result.success && result.error === QUERY_TIMEOUT_ERROR) {
+    return res.status(504).json({
+      error: "Query timeout",
+      message: `Query exceeded its time limit of ${maxTimeMS}ms`,
+    });
+  }
+  if (!result.success || !result.data) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to compute timeseries",
+    });
+  }
+
+  // Buckets without events are reported as zero
+  const values = new Map(
+    result.data.map((point) => [point.bucket.getTime(), point.value])
+  );
+  res.json({
+    metric: query.metric,
+    field: query.field,
+    interval: query.interval,
+    timezone: query.timezone,
+    points: buckets.map((bucket) => ({
+      bucket,
+      value: values.get(bucket.getTime()) ?? 0,
+    })),
+  });
+};
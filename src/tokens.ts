@@ -0,0 +1,94 @@
+import express, { Request, Response } from "express";
+
+import { requireRole } from "./auth";
+import { createAccessToken, findAccessTokens, revokeAccessToken } from "./db";
+import {
+  AccessToken,
+  CreateAccessTokenInput,
+  createAccessTokenSchema,
+} from "./types";
+import { formatValidationErrors, validateInput } from "./validation";
+
+// Never return token hashes
+const formatAccessToken = (record: AccessToken) => ({
+  token_id: record.token_id,
+  name: record.name,
+  role: record.role,
+  games: record.games,
+  created_at: record.created_at,
+  revoked_at: record.revoked_at,
+});
+
+const createToken = async (req: Request, res: Response) => {
+  const validationResult = await validateInput<CreateAccessTokenInput>(
+    createAccessTokenSchema,
+    req.body
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid token data",
+      message: "Access token validation failed",
+      details: errors,
+    });
+  }
+
+  const { name, role, games } = validationResult.data;
+  const result = await createAccessToken(name, role, games);
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to create access token",
+    });
+  }
+
+  // The token is only ever returned here
+  res.status(201).json({
+    ...formatAccessToken(result.data!.record),
+    token: result.data!.token,
+  });
+};
+
+const listTokens = async (req: Request, res: Response) => {
+  const result = await findAccessTokens();
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to fetch access tokens",
+    });
+  }
+
+  res.json((result.data || []).map(formatAccessToken));
+};
+
+const revokeToken = async (req: Request, res: Response) => {
+  const result = await revokeAccessToken(req.params.tokenId);
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to revoke access token",
+    });
+  }
+  if (!result.data) {
+    return res.status(404).json({
+      error: "Access token not found",
+      message: "No active access token with this id exists",
+    });
+  }
+
+  res.json(formatAccessToken(result.data));
+};
+
+// Admin routes for managing access tokens (needs an admin of every game)
+export const createTokenRoutes = () => {
+  const router = express.Router();
+
+  router.use(requireRole("admin"));
+
+  router.post("/", createToken);
+  router.get("/", listTokens);
+  router.delete("/:tokenId", revokeToken);
+
+  return router;
+};
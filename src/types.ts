@@ -1,18 +1,81 @@
 import { ObjectId, Document } from "mongodb";
 import Joi from "joi";
 
+import { decodeLeaderboardCursor, isValidTimeZone } from "./leaderboard";
+
 export interface AnalyticsQuery {
   game: string;
   pipeline: Document[];
+  // Drop or clamp refused stages instead of rejecting the query
+  lenient: boolean;
+  // Lower the time budget of the caller's role for this query
+  max_time_ms?: number;
+  // Let large sorts and groups spill to disk (admins only)
+  allow_disk_use: boolean;
+  // Also report documents and index keys examined (runs an explain of the
+  // query within what is left of the time budget)
+  include_stats: boolean;
+  // Serve the result from the cache when a fresh one is there
+  cache: boolean;
+  // "report" wraps the results with the pipeline changes, stats and cache
+  // status, "array" (the default) returns the bare list old clients expect
+  format: "array" | "report";
 }
 
 export const analyticsQuerySchema = Joi.object({
   game: Joi.string().trim().min(1).required(),
   pipeline: Joi.array().items(Joi.object().unknown(true)).required(),
+  lenient: Joi.boolean().default(false),
+  max_time_ms: Joi.number().integer().min(1).optional(),
+  allow_disk_use: Joi.boolean().default(false),
+  include_stats: Joi.boolean().default(false),
+  cache: Joi.boolean().default(true),
+  format: Joi.string().valid("array", "report").default("array"),
 });
 
+// How to run a pipeline, shared by ad-hoc and saved queries
+export type AnalyticsQuerySettings = Pick<
+  AnalyticsQuery,
+  | "lenient"
+  | "max_time_ms"
+  | "allow_disk_use"
+  | "include_stats"
+  | "cache"
+  | "format"
+>;
+
+export interface AnalyticsQueryOptions {
+  maxTimeMS: number;
+  allowDiskUse: boolean;
+  includeStats: boolean;
+  // Aborting stops the query on the server
+  signal?: AbortSignal;
+}
+
+// Cost of an analytics query, reported back so analysts can tune their pipelines
+export interface AnalyticsQueryStats {
+  execution_time_ms: number;
+  max_time_ms: number;
+  allow_disk_use: boolean;
+  docs_examined?: number;
+  keys_examined?: number;
+}
+
+export interface AnalyticsQueryResult {
+  results: Document[];
+  stats: AnalyticsQueryStats;
+}
+
+// What the query planner would do for an analytics query
+export interface AnalyticsQueryPlan {
+  collection_scan: boolean;
+  collection_size: number;
+}
+
 // Game event sent from the client
 export interface GameEvent {
+  // Client-generated id used to ignore retried deliveries of the same event
+  event_id?: string;
   game: string;
   mode?: string;
   player: string;
@@ -23,6 +86,7 @@ export interface GameEvent {
 }
 
 export const gameEventSchema = Joi.object({
+  event_id: Joi.string().trim().min(1).max(128).optional(),
   game: Joi.string().trim().min(1).required(),
   mode: Joi.string().trim().optional(),
   player: Joi.string().trim().min(1).required(),
@@ -32,9 +96,35 @@ export const gameEventSchema = Joi.object({
   timestamp: Joi.date().iso().required(),
 });
 
+// Most events accepted in one batch request
+export const MAX_EVENT_BATCH_SIZE = 500;
+
+// Batch of game events sent from the client (each item is validated separately),
+// capped at MAX_EVENT_BATCH_SIZE events per request
+export const gameEventBatchSchema = Joi.array()
+  .items(Joi.object().unknown(true))
+  .min(1)
+  .max(MAX_EVENT_BATCH_SIZE)
+  .required();
+
+// Why a high score event was kept off the leaderboard, and how it was reviewed
+export interface ScoreFlag {
+  reasons: string[];
+  flagged_at: Date;
+  review?: "approved" | "rejected";
+  reviewed_at?: Date;
+}
+
 // Game event stored in the database
 export interface EventRecord extends GameEvent {
   _id?: ObjectId;
+  flagged?: ScoreFlag;
+  // Problems with the payload, for events accepted despite breaking their schema
+  schema_violations?: string[];
+  // Retention purge that picked the event for deletion, and whether the event
+  // is counted in the daily counts yet
+  purge_id?: string;
+  rolled_up?: boolean;
 }
 
 // High score event sent from the client
@@ -49,6 +139,7 @@ export interface ScoreEvent extends GameEvent {
 // High score record stored in the database (also stored as an event in the events collection)
 export interface ScoreRecord {
   _id?: ObjectId;
+  event_id?: string;
   game: string;
   mode: string;
   player: string;
@@ -57,6 +148,60 @@ export interface ScoreRecord {
   score: number;
   data: Record<string, unknown>;
   timestamp: Date;
+  // Hidden scores stay stored but are left off leaderboards
+  hidden?: boolean;
+}
+
+export interface HideScoreInput {
+  hidden: boolean;
+}
+
+export const hideScoreSchema = Joi.object({
+  hidden: Joi.boolean().required(),
+});
+
+// Player whose scores are left off a game's leaderboards
+export interface PlayerBan {
+  _id?: ObjectId;
+  game: string;
+  player: string;
+  reason?: string;
+  created_at: Date;
+}
+
+export interface BanPlayerInput {
+  player: string;
+  reason?: string;
+}
+
+export const banPlayerSchema = Joi.object({
+  player: Joi.string().trim().min(1).required(),
+  reason: Joi.string().trim().max(500).optional(),
+});
+
+// Events recorded for a run up to a point in time
+export interface RunActivity {
+  first_event_at?: Date;
+  event_names: string[];
+}
+
+export interface ReviewFlaggedScoreInput {
+  review: "approved" | "rejected";
+}
+
+export const reviewFlaggedScoreSchema = Joi.object({
+  review: Joi.string().valid("approved", "rejected").required(),
+});
+
+// Result of a single insert, duplicate is set when the event_id was already recorded
+export interface InsertResult {
+  duplicate: boolean;
+}
+
+// Result of a bulk insert, listing the positions of documents that were not written
+export interface BulkInsertResult {
+  failed: { index: number; error: string }[];
+  duplicates: number[];
 }
 
 // Database operation result
@@ -65,3 +210,1038 @@ export interface DatabaseResult<T> {
   data?: T;
   error?: string;
 }
+
+// Game registered with the server (stored in the games collection)
+export interface GameConfig {
+  _id?: ObjectId;
+  name: string;
+  display_name: string;
+  modes: string[];
+  archived: boolean;
+  // Reject events that do not carry an active API key for the game
+  require_api_key?: boolean;
+  // Reject events that are not signed with an active API key for the game
+  require_signature?: boolean;
+  // Anti-cheat rules checked before a score reaches the leaderboard
+  score_rules?: ScoreRule[];
+  leaderboard?: LeaderboardSettings;
+  moderation?: ModerationSettings;
+  rate_limits?: RateLimitSettings;
+  retention?: RetentionSettings;
+  // Released versions of the game, the only ones new_version webhooks fire for
+  versions?: string[];
+  // Last time the retention purge ran for the game
+  retention_purged_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Anti-cheat rule for scores, applied to every mode unless mode is set
+export interface ScoreRule {
+  mode?: string;
+  min_score?: number;
+  max_score?: number;
+  // Score divided by the seconds since the run's first event
+  max_score_per_second?: number;
+  // Events that must have been recorded for the run before the score
+  required_events?: string[];
+}
+
+export const scoreRuleSchema = Joi.object({
+  mode: Joi.string().trim().min(1).optional(),
+  min_score: Joi.number().optional(),
+  max_score: Joi.number().optional(),
+  max_score_per_second: Joi.number().positive().optional(),
+  required_events: Joi.array().items(Joi.string().trim().min(1)).optional(),
+});
+
+// IANA time zone name such as "Europe/Berlin"
+const timeZoneSchema = Joi.string().custom((value, helpers) =>
+  isValidTimeZone(value) ? value : helpers.error("any.invalid")
+);
+
+// When daily, weekly and monthly leaderboards reset
+export interface LeaderboardSettings {
+  timezone?: string;
+  // Day weekly boards reset on (0 = Sunday, defaults to Monday)
+  week_start?: number;
+  // Only show each player's best score by default
+  one_entry_per_player?: boolean;
+  // Modes where the lowest score wins (e.g. speedrun times)
+  ascending_modes?: string[];
+}
+
+export const leaderboardSettingsSchema = Joi.object({
+  timezone: timeZoneSchema.optional(),
+  week_start: Joi.number().integer().min(0).max(6).optional(),
+  one_entry_per_player: Joi.boolean().optional(),
+  ascending_modes: Joi.array().items(Joi.string().trim().min(1)).optional(),
+});
+
+export type LeaderboardWindow = "daily" | "weekly" | "monthly" | "all-time";
+
+export type LeaderboardOrder = "asc" | "desc";
+
+// Position on a leaderboard to continue reading from (the last entry of a page)
+export interface LeaderboardCursor {
+  score: number;
+  timestamp: Date;
+  id: ObjectId;
+}
+
+// Query string of the high scores endpoint
+export interface HighScoresQuery {
+  player?: string;
+  window: LeaderboardWindow;
+  timezone?: string;
+  // Overrides the game's one_entry_per_player setting
+  per_player?: boolean;
+  // Overrides the game's ascending_modes setting
+  order?: LeaderboardOrder;
+  limit: number;
+  cursor?: LeaderboardCursor;
+  // "page" wraps the entries with the total and next cursor, "array" (the
+  // default) returns the bare list old clients expect
+  format: "array" | "page";
+}
+
+export const highScoresQuerySchema = Joi.object({
+  player: Joi.string().trim().min(1).optional(),
+  window: Joi.string()
+    .valid("daily", "weekly", "monthly", "all-time")
+    .default("all-time"),
+  timezone: timeZoneSchema.optional(),
+  per_player: Joi.boolean().optional(),
+  order: Joi.string().valid("asc", "desc").optional(),
+  limit: Joi.number().integer().min(1).max(1000).default(100),
+  cursor: Joi.string()
+    .custom((value, helpers) => {
+      const cursor = decodeLeaderboardCursor(value);
+      return cursor || helpers.error("any.invalid");
+    })
+    .optional(),
+  format: Joi.string().valid("array", "page").default("array"),
+}).unknown(true);
+
+// Query string of the player rank endpoint
+export interface PlayerRankQuery extends HighScoresQuery {
+  player: string;
+  // How many entries to return above and below the player
+  neighbors: number;
+}
+
+export const playerRankQuerySchema = highScoresQuerySchema.keys({
+  player: Joi.string().trim().min(1).required(),
+  neighbors: Joi.number().integer().min(0).max(25).default(5),
+});
+
+// Options for reading a leaderboard from the scores collection
+export interface HighScoreOptions {
+  limit?: number;
+  player?: string;
+  // Only include scores recorded at or after this time
+  since?: Date;
+  // Keep only each player's best score
+  perPlayer?: boolean;
+  order?: LeaderboardOrder;
+  // Only include entries after this one
+  cursor?: LeaderboardCursor;
+}
+
+// A player's position on a leaderboard
+export interface PlayerRank {
+  rank: number;
+  total: number;
+  percentile: number;
+  entry: ScoreRecord;
+  above: ScoreRecord[];
+  below: ScoreRecord[];
+}
+
+// How player names with blocked words are handled for a game
+export interface ModerationSettings {
+  // "mask" replaces blocked words with asterisks (default), "reject" refuses the event
+  action?: "mask" | "reject";
+  // Added to the words listed in the BLOCKED_WORDS env variable
+  blocked_words?: string[];
+}
+
+export const moderationSettingsSchema = Joi.object({
+  action: Joi.string().valid("mask", "reject").optional(),
+  blocked_words: Joi.array().items(Joi.string().trim().min(1)).optional(),
+});
+
+export interface RetentionSettings {
+  // Raw events older than this are purged (kept forever when unset)
+  event_days?: number;
+  // Event names kept forever (high_score when unset)
+  keep_events?: string[];
+  // Count purged events per day, event name and mode in <game>_daily_events first
+  rollup?: boolean;
+}
+
+export const retentionSettingsSchema = Joi.object({
+  event_days: Joi.number().integer().min(1).optional(),
+  keep_events: Joi.array().items(Joi.string().trim().min(1)).optional(),
+  rollup: Joi.boolean().optional(),
+});
+
+// Retention settings to try out in a dry run (keep_events comma-separated)
+export const retentionReportQuerySchema = Joi.object({
+  event_days: Joi.number().integer().min(1).optional(),
+  keep_events: Joi.string()
+    .custom((value: string) =>
+      value
+        .split(",")
+        .map((name) => name.trim())
+        .filter(Boolean)
+    )
+    .optional(),
+  rollup: Joi.boolean().optional(),
+});
+
+// Token bucket: holds up to capacity requests and refills continuously
+export interface RateLimitBudget {
+  capacity: number;
+  refill_per_second: number;
+}
+
+export type RateLimitScope = "events" | "scores" | "analytics";
+
+// Budgets per IP address and per player id
+export interface RateLimitScopeSettings {
+  ip?: RateLimitBudget;
+  player?: RateLimitBudget;
+}
+
+export type RateLimitSettings = Partial<
+  Record<RateLimitScope, RateLimitScopeSettings>
+>;
+
+const rateLimitBudgetSchema = Joi.object({
+  capacity: Joi.number().integer().min(1).required(),
+  refill_per_second: Joi.number().positive().required(),
+});
+
+const rateLimitScopeSettingsSchema = Joi.object({
+  ip: rateLimitBudgetSchema.optional(),
+  player: rateLimitBudgetSchema.optional(),
+});
+
+export const rateLimitSettingsSchema = Joi.object({
+  events: rateLimitScopeSettingsSchema.optional(),
+  scores: rateLimitScopeSettingsSchema.optional(),
+  analytics: rateLimitScopeSettingsSchema.optional(),
+});
+
+// Game names become part of collection names, so keep them to a safe charset
+const gameNameSchema = Joi.string()
+  .trim()
+  .pattern(/^[a-z0-9_]+$/)
+  .max(64);
+
+export interface CreateGameInput {
+  name: string;
+  display_name?: string;
+  modes?: string[];
+}
+
+export const createGameSchema = Joi.object({
+  name: gameNameSchema.required(),
+  display_name: Joi.string().trim().min(1).optional(),
+  modes: Joi.array().items(Joi.string().trim().min(1)).unique().optional(),
+});
+
+export interface UpdateGameInput {
+  display_name?: string;
+  modes?: string[];
+  archived?: boolean;
+  require_api_key?: boolean;
+  require_signature?: boolean;
+  score_rules?: ScoreRule[];
+  leaderboard?: LeaderboardSettings;
+  moderation?: ModerationSettings;
+  rate_limits?: RateLimitSettings;
+  retention?: RetentionSettings;
+  versions?: string[];
+}
+
+export const updateGameSchema = Joi.object({
+  display_name: Joi.string().trim().min(1).optional(),
+  modes: Joi.array().items(Joi.string().trim().min(1)).unique().optional(),
+  archived: Joi.boolean().optional(),
+  require_api_key: Joi.boolean().optional(),
+  require_signature: Joi.boolean().optional(),
+  score_rules: Joi.array().items(scoreRuleSchema).optional(),
+  leaderboard: leaderboardSettingsSchema.optional(),
+  moderation: moderationSettingsSchema.optional(),
+  rate_limits: rateLimitSettingsSchema.optional(),
+  retention: retentionSettingsSchema.optional(),
+  versions: Joi.array()
+    .items(Joi.string().trim().min(1).max(64))
+    .unique()
+    .max(1000)
+    .optional(),
+}).min(1);
+
+// Per-game ingestion key (a game can have several active keys while rotating)
+export interface ApiKeyRecord {
+  _id?: ObjectId;
+  key_id: string;
+  game: string;
+  key: string;
+  label?: string;
+  created_at: Date;
+  revoked_at: Date | null;
+}
+
+// Roles, from least to most privileged: ingest can write events, analyst can
+// also read analytics, admin can also manage the game
+export type AccessRole = "ingest" | "analyst" | "admin";
+
+export const ACCESS_ROLES: AccessRole[] = ["ingest", "analyst", "admin"];
+
+// Bearer token granting a role on some games ("*" grants it on every game)
+export interface AccessToken {
+  _id?: ObjectId;
+  token_id: string;
+  // SHA-256 of the token, the token itself is only shown when it is created
+  token_hash: string;
+  name: string;
+  role: AccessRole;
+  games: string[];
+  created_at: Date;
+  revoked_at: Date | null;
+}
+
+// What an authenticated request is allowed to do
+export interface AccessGrant {
+  name: string;
+  role: AccessRole;
+  games: string[];
+}
+
+export interface CreateAccessTokenInput {
+  name: string;
+  role: AccessRole;
+  games: string[];
+}
+
+export const createAccessTokenSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  role: Joi.string()
+    .valid(...ACCESS_ROLES)
+    .required(),
+  games: Joi.array()
+    .items(Joi.string().trim().min(1))
+    .min(1)
+    .unique()
+    .required(),
+});
+
+export interface CreateApiKeyInput {
+  label?: string;
+}
+
+export const createApiKeySchema = Joi.object({
+  label: Joi.string().trim().max(100).optional(),
+});
+
+// Parameters of saved analytics queries, referenced in the pipeline as { $param: "name" }
+export type SavedQueryParamType = "string" | "number" | "boolean" | "date";
+
+export const SAVED_QUERY_PARAM_TYPES: SavedQueryParamType[] = [
+  "string",
+  "number",
+  "boolean",
+  "date",
+];
+
+export interface SavedQueryParam {
+  name: string;
+  type: SavedQueryParamType;
+  required: boolean;
+  default?: string | number | boolean;
+  description?: string;
+}
+
+// A named analytics pipeline of a game
+export interface SavedQuery {
+  _id?: ObjectId;
+  game: string;
+  name: string;
+  description: string | null;
+  pipeline: Document[];
+  params: SavedQueryParam[];
+  version: number;
+  // Name of the access token that saved this version
+  updated_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Every saved version of a saved query is kept
+export type SavedQueryVersion = Omit<SavedQuery, "created_at">;
+
+export const savedQueryNameSchema = Joi.string()
+  .pattern(/^[a-z0-9_-]+$/)
+  .max(64);
+
+export interface SaveQueryInput {
+  game: string;
+  description?: string;
+  pipeline: Document[];
+  params: SavedQueryParam[];
+}
+
+export const saveQuerySchema = Joi.object({
+  game: Joi.string().trim().min(1).required(),
+  description: Joi.string().trim().max(500).optional(),
+  pipeline: Joi.array().items(Joi.object().unknown(true)).min(1).required(),
+  params: Joi.array()
+    .items(
+      Joi.object({
+        name: Joi.string()
+          .pattern(/^[a-zA-Z_][a-zA-Z0-9_]*$/)
+          .max(64)
+          .required(),
+        type: Joi.string()
+          .valid(...SAVED_QUERY_PARAM_TYPES)
+          .required(),
+        required: Joi.boolean().default(false),
+        default: Joi.alternatives()
+          .try(Joi.string(), Joi.number(), Joi.boolean())
+          .optional(),
+        description: Joi.string().trim().max(200).optional(),
+      })
+    )
+    .unique("name")
+    .default([]),
+});
+
+export interface RunSavedQueryInput extends AnalyticsQuerySettings {
+  game: string;
+  params: Record<string, unknown>;
+}
+
+export const runSavedQuerySchema = Joi.object({
+  game: Joi.string().trim().min(1).required(),
+  params: Joi.object().unknown(true).default({}),
+  lenient: Joi.boolean().default(false),
+  max_time_ms: Joi.number().integer().min(1).optional(),
+  allow_disk_use: Joi.boolean().default(false),
+  include_stats: Joi.boolean().default(false),
+  cache: Joi.boolean().default(true),
+  format: Joi.string().valid("array", "report").default("array"),
+});
+
+// A pipeline whose results are refreshed on an interval into <game>_rollups
+export interface MaterializedView {
+  _id?: ObjectId;
+  game: string;
+  name: string;
+  // Already validated when the view was saved
+  pipeline: Document[];
+  interval_ms: number;
+  next_run_at: Date;
+  // Last successful refresh
+  last_run_at: Date | null;
+  last_error: string | null;
+  row_count: number;
+  updated_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// One result of a materialized view, all rows of a refresh share refreshed_at
+export interface RollupRow {
+  _id?: ObjectId;
+  view: string;
+  refreshed_at: Date;
+  data: Document;
+}
+
+export interface SaveViewInput {
+  game: string;
+  pipeline: Document[];
+  interval_minutes: number;
+}
+
+export const saveViewSchema = Joi.object({
+  game: Joi.string().trim().min(1).required(),
+  pipeline: Joi.array().items(Joi.object().unknown(true)).min(1).required(),
+  interval_minutes: Joi.number().integer().min(1).max(1440).default(15),
+});
+
+// A funnel step: an event name, optionally with exact values of its data fields
+export interface FunnelStep {
+  event_name: string;
+  data?: Record<string, string | number | boolean>;
+}
+
+export type FunnelGroupBy = "player" | "run";
+
+export interface FunnelQuery {
+  game: string;
+  mode?: string;
+  steps: FunnelStep[];
+  // Every step must happen within this long of the first one
+  window_minutes: number;
+  from: Date;
+  to?: Date;
+  group_by: FunnelGroupBy;
+}
+
+export const funnelQuerySchema = Joi.object({
+  game: Joi.string().trim().min(1).required(),
+  mode: Joi.string().trim().min(1).optional(),
+  steps: Joi.array()
+    .items(
+      Joi.object({
+        event_name: Joi.string().trim().min(1).required(),
+        data: Joi.object()
+          .pattern(
+            /^[a-zA-Z0-9_]+$/,
+            Joi.alternatives().try(Joi.string(), Joi.number(), Joi.boolean())
+          )
+          .optional(),
+      })
+    )
+    .min(2)
+    .max(10)
+    .required(),
+  window_minutes: Joi.number()
+    .integer()
+    .min(1)
+    .max(60 * 24 * 90)
+    .default(60 * 24),
+  from: Joi.date().iso().required(),
+  to: Joi.date().iso().min(Joi.ref("from")).optional(),
+  group_by: Joi.string().valid("player", "run").default("player"),
+});
+
+export interface FunnelStepResult {
+  step: number;
+  event_name: string;
+  // Players (or runs) that reached this step
+  count: number;
+  // Share of those that started the funnel
+  conversion_rate: number;
+  // Share of those that reached the previous step
+  step_conversion_rate: number;
+  // How many reached the previous step but not this one
+  drop_off: number;
+}
+
+// Activity of a player, overall (mode null) and per mode, kept up to date as
+// events arrive
+export interface PlayerSummary {
+  _id?: ObjectId;
+  player: string;
+  mode: string | null;
+  first_seen: Date;
+  last_seen: Date;
+  event_count: number;
+  // Run summaries the player started (see RunSummary)
+  run_count: number;
+  last_run: string | null;
+}
+
+export interface PlayerActivityQuery {
+  // A mode, null for overall activity or { $ne: null } for every mode
+  mode: string | null | { $ne: null };
+  from: Date;
+  to: Date;
+  activeUntil: Date;
+  timezone: string;
+}
+
+export interface PlayerActivity {
+  mode: string | null;
+  first_seen: Date;
+  active_days: Date[];
+}
+
+export type RetentionBucket = "day" | "week";
+
+export interface RetentionQuery {
+  game: string;
+  mode?: string;
+  split_by_mode: boolean;
+  bucket: RetentionBucket;
+  // Cohorts of players first seen in this range
+  from: Date;
+  to?: Date;
+  // Periods after the first one to report
+  periods: number;
+  timezone: string;
+}
+
+export const retentionQuerySchema = Joi.object({
+  game: Joi.string().trim().min(1).required(),
+  mode: Joi.string()
+    .trim()
+    .min(1)
+    .optional()
+    .when("split_by_mode", { is: true, then: Joi.forbidden() }),
+  split_by_mode: Joi.boolean().default(false),
+  bucket: Joi.string().valid("day", "week").default("day"),
+  from: Joi.date().iso().required(),
+  to: Joi.date().iso().min(Joi.ref("from")).optional(),
+  periods: Joi.number().integer().min(1).max(90).default(30),
+  timezone: timeZoneSchema.default("UTC"),
+});
+
+// Players first seen in one day (or week) and how many were active again in
+// each period after it (retained[0] is the cohort itself)
+export interface RetentionCohort {
+  cohort: Date;
+  size: number;
+  retained: number[];
+  rates: number[];
+}
+
+// Summary of a player's run, kept up to date as its events arrive (run ids
+// come from clients, so they are only unique per player)
+export interface RunSummary {
+  _id?: ObjectId;
+  run: string;
+  player: string;
+  mode: string | null;
+  started_at: Date;
+  ended_at: Date;
+  event_count: number;
+  last_event_name: string;
+  // Score of the run's high_score event, if one arrived
+  final_score: number | null;
+}
+
+export interface PlayerRunsQuery {
+  game: string;
+  limit: number;
+  // Only runs started before this time (for paging through older runs)
+  before?: Date;
+}
+
+export const playerRunsQuerySchema = Joi.object({
+  game: Joi.string().trim().min(1).required(),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  before: Joi.date().iso().optional(),
+});
+
+export interface RunTimelineQuery {
+  game: string;
+  limit: number;
+}
+
+export const runTimelineQuerySchema = Joi.object({
+  game: Joi.string().trim().min(1).required(),
+  limit: Joi.number().integer().min(1).max(1000).default(500),
+});
+
+export type TimeseriesMetric =
+  "count" | "unique_players" | "unique_runs" | "sum" | "avg";
+
+export type TimeseriesInterval = "minute" | "hour" | "day";
+
+export interface TimeseriesQuery {
+  game: string;
+  event_name?: string;
+  mode?: string;
+  metric: TimeseriesMetric;
+  // Numeric data field summed or averaged by the sum and avg metrics
+  field?: string;
+  interval: TimeseriesInterval;
+  from: Date;
+  to?: Date;
+  timezone: string;
+}
+
+export const timeseriesQuerySchema = Joi.object({
+  game: Joi.string().trim().min(1).required(),
+  event_name: Joi.string().trim().min(1).optional(),
+  mode: Joi.string().trim().min(1).optional(),
+  metric: Joi.string()
+    .valid("count", "unique_players", "unique_runs", "sum", "avg")
+    .default("count"),
+  field: Joi.string()
+    .pattern(/^[a-zA-Z0-9_]+$/)
+    .when("metric", {
+      is: Joi.valid("sum", "avg"),
+      then: Joi.required(),
+      otherwise: Joi.forbidden(),
+    }),
+  interval: Joi.string().valid("minute", "hour", "day").default("hour"),
+  from: Joi.date().iso().required(),
+  to: Joi.date().iso().greater(Joi.ref("from")).optional(),
+  timezone: timeZoneSchema.default("UTC"),
+});
+
+export interface TimeseriesPoint {
+  bucket: Date;
+  value: number;
+}
+
+export type PayloadType =
+  "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+export const PAYLOAD_TYPES: PayloadType[] = [
+  "object",
+  "array",
+  "string",
+  "number",
+  "integer",
+  "boolean",
+  "null",
+];
+
+// The subset of JSON Schema event payloads are checked against
+export interface PayloadSchema {
+  type?: PayloadType | PayloadType[];
+  description?: string;
+  enum?: (string | number | boolean | null)[];
+  properties?: Record<string, PayloadSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: PayloadSchema;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export const payloadSchemaSchema = Joi.object({
+  type: Joi.alternatives().try(
+    Joi.string().valid(...PAYLOAD_TYPES),
+    Joi.array()
+      .items(Joi.string().valid(...PAYLOAD_TYPES))
+      .min(1)
+      .unique()
+  ),
+  description: Joi.string().max(500),
+  enum: Joi.array()
+    .items(Joi.string(), Joi.number(), Joi.boolean(), Joi.valid(null))
+    .min(1),
+  properties: Joi.object().pattern(
+    /^[a-zA-Z0-9_-]+$/,
+    Joi.link("#payloadSchema")
+  ),
+  required: Joi.array().items(Joi.string()).unique(),
+  additionalProperties: Joi.boolean(),
+  items: Joi.link("#payloadSchema"),
+  minimum: Joi.number(),
+  maximum: Joi.number(),
+  minLength: Joi.number().integer().min(0),
+  maxLength: Joi.number().integer().min(0),
+  pattern: Joi.string().custom((value, helpers) => {
+    try {
+      new RegExp(value);
+      return value;
+    } catch (error) {
+      return helpers.error("any.invalid");
+    }
+  }),
+  minItems: Joi.number().integer().min(0),
+  maxItems: Joi.number().integer().min(0),
+}).id("payloadSchema");
+
+// What happens to events whose payload breaks their schema: rejected, stored
+// and marked, or stored with a warning in the response
+export type SchemaMode = "reject" | "flag" | "warn";
+
+// Payload schema of one event name of a game
+export interface EventSchema {
+  _id?: ObjectId;
+  game: string;
+  event_name: string;
+  schema: PayloadSchema;
+  mode: SchemaMode;
+  description: string | null;
+  updated_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SaveEventSchemaInput {
+  schema: PayloadSchema;
+  mode: SchemaMode;
+  description?: string;
+}
+
+export const saveEventSchemaSchema = Joi.object({
+  schema: payloadSchemaSchema.required(),
+  mode: Joi.string().valid("reject", "flag", "warn").default("reject"),
+  description: Joi.string().trim().max(500).optional(),
+});
+
+export type ExportKind = "events" | "scores";
+
+export type ExportFormat = "ndjson" | "csv";
+
+export interface ExportQuery {
+  format: ExportFormat;
+  mode?: string;
+  // Events only
+  event_name?: string;
+  from?: Date;
+  to?: Date;
+  // Resume after the record with this id (the id of the last record received)
+  after?: string;
+  // CSV only: data fields to put in columns (found by reading the data first
+  // when left out)
+  columns?: string[];
+}
+
+export const exportQuerySchema = Joi.object({
+  format: Joi.string().valid("ndjson", "csv").default("ndjson"),
+  mode: Joi.string().trim().min(1).optional(),
+  event_name: Joi.string().trim().min(1).optional(),
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().optional(),
+  after: Joi.string()
+    .pattern(/^[0-9a-f]{24}$/)
+    .optional(),
+  columns: Joi.string()
+    .custom((value: string) =>
+      value
+        .split(",")
+        .map((column) => column.trim())
+        .filter(Boolean)
+    )
+    .optional(),
+});
+
+// Events of a day (UTC) purged by the retention policy, per event name and mode
+export interface DailyEventCount {
+  _id?: ObjectId;
+  day: Date;
+  event_name: string;
+  mode: string | null;
+  count: number;
+  // Purges whose events are included in count
+  purge_ids?: string[];
+}
+
+// Events the retention policy of a game would purge now
+export interface RetentionReport {
+  cutoff: Date;
+  keep_events: string[];
+  rollup: boolean;
+  events: number;
+  by_event_name: { event_name: string; count: number }[];
+}
+
+export type PrivacyAction = "export" | "erase" | "pseudonymize";
+
+// Everything held about a player for one game
+export interface PlayerData {
+  events: EventRecord[];
+  scores: ScoreRecord[];
+  summaries: PlayerSummary[];
+  runs: RunSummary[];
+  bans: PlayerBan[];
+}
+
+// Records of one game erased or pseudonymized for a player
+export interface PlayerDataChanges {
+  game: string;
+  events: number;
+  scores: number;
+  summaries: number;
+  runs: number;
+  bans: number;
+  webhook_deliveries: number;
+  rollups: number;
+}
+
+// Audit record of a privacy request. The player is only stored as a hash so
+// that the audit log does not keep what was erased.
+export interface PrivacyRequest {
+  _id?: ObjectId;
+  request_id: string;
+  action: PrivacyAction;
+  player_hash: string;
+  requested_by: string;
+  reason?: string;
+  changes?: PlayerDataChanges[];
+  // Set when the request stopped partway, changes lists what was done
+  error?: string;
+  created_at: Date;
+}
+
+export interface PrivacyRequestInput {
+  reason?: string;
+}
+
+export const privacyRequestSchema = Joi.object({
+  reason: Joi.string().trim().max(500).optional(),
+});
+
+export interface LiveEventsQuery {
+  game: string;
+  event_name?: string;
+  mode?: string;
+  player?: string;
+}
+
+export const liveEventsQuerySchema = Joi.object({
+  game: Joi.string().trim().min(1).required(),
+  event_name: Joi.string().trim().min(1).optional(),
+  mode: Joi.string().trim().min(1).optional(),
+  player: Joi.string().trim().min(1).optional(),
+});
+
+export type LiveLeaderboardQuery = Pick<
+  HighScoresQuery,
+  "window" | "timezone" | "per_player" | "order" | "limit"
+>;
+
+export const liveLeaderboardQuerySchema = Joi.object({
+  window: Joi.string()
+    .valid("daily", "weekly", "monthly", "all-time")
+    .default("all-time"),
+  timezone: timeZoneSchema.optional(),
+  per_player: Joi.boolean().optional(),
+  order: Joi.string().valid("asc", "desc").optional(),
+  limit: Joi.number().integer().min(1).max(100).default(10),
+});
+
+// What fires a webhook: matching events, a new #1 score in a mode, the first
+// event of a new game version, or a spike of some events
+export type WebhookTriggerType =
+  "event" | "top_score" | "new_version" | "event_spike";
+
+export interface WebhookTrigger {
+  type: WebhookTriggerType;
+  // event: names that fire the webhook (every name when unset);
+  // event_spike: names counted towards the spike
+  event_names?: string[];
+  // event and top_score: modes that fire the webhook (every mode when unset)
+  modes?: string[];
+  // new_version: data field holding the game version (only versions listed
+  // in the game's versions fire the webhook)
+  version_field?: string;
+  // event_spike: fire when this many events arrive within the window (at most
+  // once per window)
+  threshold?: number;
+  window_minutes?: number;
+}
+
+export const webhookTriggerSchema = Joi.object({
+  type: Joi.string()
+    .valid("event", "top_score", "new_version", "event_spike")
+    .required(),
+  event_names: Joi.array()
+    .items(Joi.string().trim().min(1))
+    .min(1)
+    .when("type", {
+      is: "event_spike",
+      then: Joi.required(),
+      otherwise: Joi.when("type", {
+        is: "event",
+        then: Joi.optional(),
+        otherwise: Joi.forbidden(),
+      }),
+    }),
+  modes: Joi.array()
+    .items(Joi.string().trim().min(1))
+    .min(1)
+    .when("type", {
+      is: Joi.valid("event", "top_score"),
+      then: Joi.optional(),
+      otherwise: Joi.forbidden(),
+    }),
+  version_field: Joi.string()
+    .trim()
+    .pattern(/^[A-Za-z0-9_]+$/)
+    .when("type", {
+      is: "new_version",
+      then: Joi.optional().default("version"),
+      otherwise: Joi.forbidden(),
+    }),
+  threshold: Joi.number().integer().min(1).when("type", {
+    is: "event_spike",
+    then: Joi.required(),
+    otherwise: Joi.forbidden(),
+  }),
+  window_minutes: Joi.number().integer().min(1).max(1440).when("type", {
+    is: "event_spike",
+    then: Joi.required(),
+    otherwise: Joi.forbidden(),
+  }),
+});
+
+// Outbound webhook of a game. Deliveries are signed with the secret the same
+// way game clients sign their requests.
+export interface Webhook {
+  _id?: ObjectId;
+  webhook_id: string;
+  game: string;
+  url: string;
+  secret: string;
+  trigger: WebhookTrigger;
+  description?: string;
+  created_by: string;
+  created_at: Date;
+  // Last time an event_spike webhook fired
+  last_fired_at?: Date;
+}
+
+export interface CreateWebhookInput {
+  url: string;
+  trigger: WebhookTrigger;
+  description?: string;
+}
+
+export const createWebhookSchema = Joi.object({
+  url: Joi.string()
+    .uri({ scheme: ["http", "https"] })
+    .required(),
+  trigger: webhookTriggerSchema.required(),
+  description: Joi.string().trim().max(500).optional(),
+});
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+// One notification sent to a webhook, retried with backoff until delivered
+export interface WebhookDelivery {
+  _id?: ObjectId;
+  delivery_id: string;
+  webhook_id: string;
+  game: string;
+  trigger: WebhookTriggerType | "test";
+  payload: Record<string, unknown>;
+  // Player whose data the payload carries, so privacy requests can find it
+  player?: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  // When the next attempt is due (null once delivered or failed)
+  next_attempt_at: Date | null;
+  // Outcome of the last attempt
+  response_status?: number;
+  error?: string;
+  created_at: Date;
+  delivered_at?: Date;
+}
+
+export interface WebhookDeliveriesQuery {
+  status?: WebhookDeliveryStatus;
+  limit: number;
+}
+
+export const webhookDeliveriesQuerySchema = Joi.object({
+  status: Joi.string().valid("pending", "delivered", "failed").optional(),
+  limit: Joi.number().integer().min(1).max(200).default(50),
+});
+
+// Game version seen in the events of a game (for new_version webhooks)
+export interface GameVersion {
+  _id?: ObjectId;
+  game: string;
+  field: string;
+  version: string;
+  first_seen: Date;
+}
@@ -7,7 +7,7 @@ export interface ValidationResult<T> {
 
 // Validate input data against a Joi schema
 export const validateInput = async <T>(
-  schema: Joi.ObjectSchema,
+  schema: Joi.Schema,
   data: any
 ): Promise<ValidationResult<T>> => {
   try {
@@ -0,0 +1,244 @@
+import express, { Request, Response } from "express";
+
+import { getQueryTimeBudget } from "./analytics";
+import { getGrant, getReadableCollections, requireRole } from "./auth";
+import {
+  claimDueMaterializedView,
+  deleteMaterializedView,
+  executeAnalyticsQuery,
+  findMaterializedView,
+  findMaterializedViews,
+  findRollupRows,
+  getSupportedGames,
+  recordMaterializedViewError,
+  saveMaterializedView,
+  writeRollup,
+} from "./db";
+import { validatePipeline } from "./pipeline";
+import { scheduleJob } from "./scheduler";
+import {
+  MaterializedView,
+  SaveViewInput,
+  saveViewSchema,
+  savedQueryNameSchema,
+} from "./types";
+import { formatValidationErrors, validateInput } from "./validation";
+
+// How often the scheduler looks for views due for a refresh
+const VIEW_SCHEDULER_INTERVAL_MS = 30000;
+
+// Views refreshed per scheduler tick, the rest wait for the next one
+const MAX_VIEWS_PER_TICK = 10;
+
+const formatView = ({ _id, ...view }: MaterializedView) => view;
+
+// PUT takes the game from the view in the body, the other routes from the query
+// string (the handlers read the same field, so access is checked for that game)
+const getGameParam = (req: Request) =>
+  req.method === "PUT" ? req.body?.game : req.query.game;
+
+const checkViewRequest = (req: Request, res: Response, game: string) => {
+  if (savedQueryNameSchema.validate(req.params.name).error) {
+    res.status(400).json({
+      error: "Invalid view name",
+      message: "View names may only contain lowercase letters, digits, - and _",
+    });
+    return false;
+  }
+  if (!getSupportedGames().includes(game)) {
+    res.status(400).json({
+      error: "Invalid game",
+      message: "Game is not supported",
+    });
+    return false;
+  }
+  return true;
+};
+
+// Refresh one view into its rollup rows
+export const refreshMaterializedView = async (view: MaterializedView) => {
+  if (!getSupportedGames().includes(view.game)) {
+    await recordMaterializedViewError(view, "Game is not supported");
+    return;
+  }
+
+  const refreshedAt = new Date();
+  const result = await executeAnalyticsQuery(view.game, view.pipeline, {
+    maxTimeMS: getQueryTimeBudget(true),
+    allowDiskUse: false,
+    includeStats: false,
+  });
+  if (!result.success || !result.data) {
+    await recordMaterializedViewError(view, result.error || "Unknown error");
+    return;
+  }
+
+  await writeRollup(view, result.data.results, refreshedAt);
+};
+
+// Refresh every view that is due, claiming each one first so that several
+// server instances never refresh the same view at once
+export const refreshDueViews = async () => {
+  for (let i = 0; i < MAX_VIEWS_PER_TICK; i++) {
+    const claim = await claimDueMaterializedView(new Date());
+    if (!claim.success || !claim.data) {
+      return;
+    }
+    await refreshMaterializedView(claim.data);
+  }
+};
+
+export const scheduleViewRefresh = () => {
+  scheduleJob(
+    "materialized_views",
+    VIEW_SCHEDULER_INTERVAL_MS,
+    refreshDueViews
+  );
+};
+
+const listViews = async (req: Request, res: Response) => {
+  const game = String(getGameParam(req));
+  if (!getSupportedGames().includes(game)) {
+    return res.status(400).json({
+      error: "Invalid game",
+      message: "Game is not supported",
+    });
+  }
+
+  const result = await findMaterializedViews(game);
+  if (!result.success || !result.data) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to list materialized views",
+    });
+  }
+
+  res.json(result.data.map(formatView));
+};
+
+const putView = async (req: Request, res: Response) => {
+  const validationResult = await validateInput<SaveViewInput>(
+    saveViewSchema,
+    req.body
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid view data",
+      message: "View validation failed",
+      details: errors,
+    });
+  }
+
+  const input = validationResult.data;
+  if (!checkViewRequest(req, res, input.game)) {
+    return;
+  }
+
+  const validation = validatePipeline(input.pipeline, {
+    readableCollections: getReadableCollections(getGrant(res)),
+  });
+  if (validation.rejections.length > 0) {
+    return res.status(400).json({
+      error: "Invalid pipeline",
+      message: "Pipeline validation failed",
+      details: validation.rejections,
+    });
+  }
+
+  const result = await saveMaterializedView(
+    input.game,
+    req.params.name,
+    validation.pipeline,
+    input.interval_minutes * 60000,
+    getGrant(res).name
+  );
+  if (!result.success || !result.data) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to save materialized view",
+    });
+  }
+
+  res.json({ ...formatView(result.data), changes: validation.changes });
+};
+
+const removeView = async (req: Request, res: Response) => {
+  const game = String(getGameParam(req));
+  if (!checkViewRequest(req, res, game)) {
+    return;
+  }
+
+  const result = await deleteMaterializedView(game, req.params.name);
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to delete materialized view",
+    });
+  }
+  if (!result.data) {
+    return res.status(404).json({
+      error: "View not found",
+      message: "No materialized view with this name exists for the game",
+    });
+  }
+
+  res.json({ message: "View deleted" });
+};
+
+// Read the rows of the last refresh of a view
+const getViewResults = async (req: Request, res: Response) => {
+  const game = String(getGameParam(req));
+  if (!checkViewRequest(req, res, game)) {
+    return;
+  }
+
+  const view = await findMaterializedView(game, req.params.name);
+  if (!view.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to find materialized view",
+    });
+  }
+  if (!view.data) {
+    return res.status(404).json({
+      error: "View not found",
+      message: "No materialized view with this name exists for the game",
+    });
+  }
+
+  // Every row comes from the same refresh, the one the view points to
+  const refreshedAt = view.data.last_run_at;
+  const rows = refreshedAt
+    ? await findRollupRows(game, req.params.name, refreshedAt)
+    : { success: true, data: [] };
+  if (!rows.success || !rows.data) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to read materialized view",
+    });
+  }
+
+  res.json({
+    results: rows.data.map((row) => row.data),
+    cached: true,
+    refreshed_at: refreshedAt,
+    age_ms: refreshedAt ? Date.now() - refreshedAt.getTime() : null,
+    last_error: view.data.last_error,
+  });
+};
+
+export const createViewRoutes = () => {
+  const router = express.Router();
+
+  const requireAnalyst = requireRole("analyst", getGameParam);
+  const requireAdmin = requireRole("admin", getGameParam);
+
+  router.get("/", requireAnalyst, listViews);
+  router.get("/:name", requireAnalyst, getViewResults);
+  router.put("/:name", requireAdmin, putView);
+  router.delete("/:name", requireAdmin, removeView);
+
+  return router;
+};
@@ -0,0 +1,523 @@
+import crypto from "crypto";
+import express, { Request, Response } from "express";
+
+import {
+  getGrant,
+  SIGNATURE_HEADER,
+  SIGNATURE_TIMESTAMP_HEADER,
+  signPayload,
+} from "./auth";
+import {
+  claimDueWebhookDelivery,
+  claimWebhookFiring,
+  countRecentEvents,
+  createWebhook,
+  deleteWebhook,
+  findHighScores,
+  findWebhook,
+  findWebhookDeliveries,
+  findWebhooks,
+  getGameConfig,
+  insertWebhookDelivery,
+  recordGameVersion,
+  updateWebhookDelivery,
+} from "./db";
+import { scheduleJob } from "./scheduler";
+import {
+  CreateWebhookInput,
+  createWebhookSchema,
+  EventRecord,
+  ScoreRecord,
+  Webhook,
+  WebhookDeliveriesQuery,
+  webhookDeliveriesQuerySchema,
+  WebhookDelivery,
+  WebhookTriggerType,
+} from "./types";
+import { formatValidationErrors, validateInput } from "./validation";
+
+// How long a game's webhooks are cached (changes made here clear the cache at once)
+const WEBHOOK_CACHE_MS = 30000;
+
+// Attempts before a delivery is given up on
+const MAX_DELIVERY_ATTEMPTS = 6;
+
+// Wait before the first retry, doubled for every further retry
+const DELIVERY_RETRY_BASE_MS = 30000;
+
+// Time a webhook has to answer a delivery
+const DELIVERY_TIMEOUT_MS = 10000;
+
+// How often the scheduler looks for deliveries due for a retry
+const DELIVERY_SCHEDULER_INTERVAL_MS = 10000;
+
+// Deliveries retried per scheduler tick, the rest wait for the next one
+const MAX_DELIVERIES_PER_TICK = 20;
+
+const webhookCache = new Map<
+  string,
+  { webhooks: Webhook[]; loadedAt: number }
+>();
+
+// Versions known to be recorded already, so that most events skip the database
+// (the oldest are forgotten past MAX_SEEN_VERSIONS)
+const seenVersions = new Set<string>();
+const MAX_SEEN_VERSIONS = 10000;
+
+const getGameWebhooks = async (game: string) => {
+  const cached = webhookCache.get(game);
+  if (cached && Date.now() - cached.loadedAt < WEBHOOK_CACHE_MS) {
+    return cached.webhooks;
+  }
+
+  const result = await findWebhooks(game);
+  if (!result.success || !result.data) {
+    return cached?.webhooks ?? [];
+  }
+
+  webhookCache.set(game, { webhooks: result.data, loadedAt: Date.now() });
+  return result.data;
+};
+
+const formatEvent = ({
+  _id,
+  flagged,
+  schema_violations,
+  ...event
+}: EventRecord) => event;
+
+// Send a delivery once and record the outcome: delivered on a 2xx answer,
+// otherwise retried later with backoff until the attempts run out
+const attemptDelivery = async (webhook: Webhook, delivery: WebhookDelivery) => {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = String(Date.now());
+
+  let responseStatus: number | undefined;
+  let error: string | undefined;
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Id": webhook.webhook_id,
+        "X-Delivery-Id": delivery.delivery_id,
+        [SIGNATURE_TIMESTAMP_HEADER]: timestamp,
+        [SIGNATURE_HEADER]: signPayload(
+          webhook.secret,
+          timestamp,
+          Buffer.from(body)
+        ),
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    if (!response.ok) {
+      error = `Webhook answered with status ${response.status}`;
+    }
+  } catch (fetchError) {
+    error = fetchError instanceof Error ? fetchError.message : "Unknown error";
+  }
+
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+  const retry = error !== undefined && attempts < MAX_DELIVERY_ATTEMPTS;
+  const result = await updateWebhookDelivery(
+    delivery.delivery_id,
+    {
+      status: !error ? "delivered" : retry ? "pending" : "failed",
+      attempts,
+      next_attempt_at: retry
+        ? new Date(now.getTime() + DELIVERY_RETRY_BASE_MS * 2 ** (attempts - 1))
+        : null,
+      ...(responseStatus !== undefined && { response_status: responseStatus }),
+      ...(error ? { error } : { delivered_at: now }),
+    },
+    // The error of an earlier attempt no longer applies
+    error ? [] : ["error"]
+  );
+  return result.data ?? delivery;
+};
+
+// Record a delivery and attempt it at once. It is recorded as claimed for the
+// length of an attempt, so that the scheduler does not pick it up meanwhile.
+const queueDelivery = async (
+  webhook: Webhook,
+  trigger: WebhookTriggerType | "test",
+  payload: Record<string, unknown>,
+  player?: string
+) => {
+  const now = new Date();
+  const delivery: WebhookDelivery = {
+    delivery_id: crypto.randomUUID(),
+    webhook_id: webhook.webhook_id,
+    game: webhook.game,
+    trigger,
+    payload: { ...payload, trigger, game: webhook.game, sent_at: now },
+    ...(player !== undefined && { player }),
+    status: "pending",
+    attempts: 0,
+    next_attempt_at: new Date(now.getTime() + 2 * DELIVERY_TIMEOUT_MS),
+    created_at: now,
+  };
+
+  const result = await insertWebhookDelivery(delivery);
+  if (!result.success) {
+    return undefined;
+  }
+  return attemptDelivery(webhook, delivery);
+};
+
+// Retry every delivery that is due
+export const retryDueDeliveries = async () => {
+  for (let i = 0; i < MAX_DELIVERIES_PER_TICK; i++) {
+    const claim = await claimDueWebhookDelivery(
+      new Date(),
+      2 * DELIVERY_TIMEOUT_MS
+    );
+    if (!claim.success || !claim.data) {
+      return;
+    }
+
+    const delivery = claim.data;
+    const webhook = await findWebhook(delivery.game, delivery.webhook_id);
+    if (!webhook.success) {
+      return;
+    }
+    if (!webhook.data) {
+      await updateWebhookDelivery(delivery.delivery_id, {
+        status: "failed",
+        next_attempt_at: null,
+        error: "Webhook was deleted",
+      });
+      continue;
+    }
+    await attemptDelivery(webhook.data, delivery);
+  }
+};
+
+export const scheduleWebhookDeliveries = () => {
+  scheduleJob(
+    "webhook_deliveries",
+    DELIVERY_SCHEDULER_INTERVAL_MS,
+    retryDueDeliveries
+  );
+};
+
+// Registered versions seen for the first time in a batch of events, with the
+// first event of each. Versions the game did not register are ignored, so that
+// clients cannot fire the webhooks with made-up versions.
+const findNewVersions = async (
+  game: string,
+  field: string,
+  events: EventRecord[]
+) => {
+  const registered = getGameConfig(game)?.versions ?? [];
+  const newVersions = new Map<string, EventRecord>();
+  for (const event of events) {
+    const value = event.data?.[field];
+    if (typeof value !== "string" && typeof value !== "number") continue;
+
+    const version = String(value);
+    if (!registered.includes(version)) continue;
+    const key = JSON.stringify([game, field, version]);
+    if (seenVersions.has(key)) continue;
+
+    const result = await recordGameVersion(game, field, version);
+    if (!result.success) continue;
+    seenVersions.add(key);
+    if (seenVersions.size > MAX_SEEN_VERSIONS) {
+      seenVersions.delete(seenVersions.values().next().value!);
+    }
+    if (result.data) {
+      newVersions.set(version, event);
+    }
+  }
+  return newVersions;
+};
+
+const fireEventWebhook = async (
+  webhook: Webhook,
+  events: EventRecord[],
+  getNewVersions: (field: string) => Promise<Map<string, EventRecord>>
+) => {
+  const { trigger } = webhook;
+
+  if (trigger.type === "event") {
+    for (const event of events) {
+      if (
+        (!trigger.event_names ||
+          trigger.event_names.includes(event.event_name)) &&
+        (!trigger.modes || (event.mode && trigger.modes.includes(event.mode)))
+      ) {
+        await queueDelivery(
+          webhook,
+          "event",
+          { event: formatEvent(event) },
+          event.player
+        );
+      }
+    }
+  }
+
+  if (trigger.type === "new_version") {
+    const newVersions = await getNewVersions(
+      trigger.version_field || "version"
+    );
+    for (const [version, event] of newVersions) {
+      await queueDelivery(
+        webhook,
+        "new_version",
+        { version, event: formatEvent(event) },
+        event.player
+      );
+    }
+  }
+
+  if (
+    trigger.type === "event_spike" &&
+    events.some((event) => trigger.event_names!.includes(event.event_name))
+  ) {
+    const now = new Date();
+    const since = new Date(now.getTime() - trigger.window_minutes! * 60000);
+    const count = await countRecentEvents(
+      webhook.game,
+      trigger.event_names!,
+      since
+    );
+    if (
+      count.success &&
+      count.data! >= trigger.threshold! &&
+      (await claimWebhookFiring(webhook, since, now)).data
+    ) {
+      await queueDelivery(webhook, "event_spike", {
+        event_names: trigger.event_names,
+        count: count.data,
+        window_minutes: trigger.window_minutes,
+      });
+    }
+  }
+};
+
+// Whether a score just recorded is now first on its mode's all-time leaderboard
+const isTopScore = async (score: ScoreRecord) => {
+  const ascending = getGameConfig(score.game)?.leaderboard?.ascending_modes;
+  const top = await findHighScores(score.game, score.mode, {
+    limit: 1,
+    order: ascending?.includes(score.mode) ? "asc" : "desc",
+  });
+  const entry = top.data?.[0];
+  return entry?.run === score.run && entry.score === score.score;
+};
+
+// Fire the webhooks of newly recorded events in the background, ingestion
+// never waits for them
+export const triggerEventWebhooks = (game: string, events: EventRecord[]) => {
+  if (events.length === 0) return;
+  getGameWebhooks(game)
+    .then(async (webhooks) => {
+      // Every new_version webhook sees the new versions, which are only new once
+      const newVersions = new Map<string, Promise<Map<string, EventRecord>>>();
+      const getNewVersions = (field: string) => {
+        if (!newVersions.has(field)) {
+          newVersions.set(field, findNewVersions(game, field, events));
+        }
+        return newVersions.get(field)!;
+      };
+
+      for (const webhook of webhooks) {
+        await fireEventWebhook(webhook, events, getNewVersions);
+      }
+    })
+    .catch((error) => {
+      console.error(`Error firing event webhooks for ${game}:`, error);
+    });
+};
+
+// Fire the top_score webhooks of a newly recorded score in the background
+export const triggerScoreWebhooks = (score: ScoreRecord) => {
+  getGameWebhooks(score.game)
+    .then(async (webhooks) => {
+      const matching = webhooks.filter(
+        ({ trigger }) =>
+          trigger.type === "top_score" &&
+          (!trigger.modes || trigger.modes.includes(score.mode))
+      );
+      if (matching.length === 0 || !(await isTopScore(score))) {
+        return;
+      }
+      for (const webhook of matching) {
+        await queueDelivery(
+          webhook,
+          "top_score",
+          {
+            mode: score.mode,
+            entry: {
+              player_name: score.player_name,
+              score: score.score,
+              timestamp: score.timestamp,
+            },
+          },
+          score.player
+        );
+      }
+    })
+    .catch((error) => {
+      console.error(`Error firing score webhooks for ${score.game}:`, error);
+    });
+};
+
+// Only show the end of a secret when listing, the full secret is returned once
+// on creation
+const formatWebhook = ({ _id, secret, ...webhook }: Webhook) => ({
+  ...webhook,
+  secret: `...${secret.slice(-4)}`,
+});
+
+const formatDelivery = ({ _id, ...delivery }: WebhookDelivery) => delivery;
+
+const addWebhook = async (req: Request, res: Response) => {
+  const { game } = req.params;
+  if (!getGameConfig(game)) {
+    return res.status(404).json({
+      error: "Game not found",
+      message: "No game is registered with this name",
+    });
+  }
+
+  const validationResult = await validateInput<CreateWebhookInput>(
+    createWebhookSchema,
+    req.body
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid webhook data",
+      message: "Webhook validation failed",
+      details: errors,
+    });
+  }
+
+  const result = await createWebhook(
+    game,
+    validationResult.data,
+    getGrant(res).name
+  );
+  if (!result.success || !result.data) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to create webhook",
+    });
+  }
+
+  webhookCache.delete(game);
+  const { _id, ...webhook } = result.data;
+  res.status(201).json(webhook);
+};
+
+const listWebhooks = async (req: Request, res: Response) => {
+  const result = await findWebhooks(req.params.game);
+  if (!result.success || !result.data) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to list webhooks",
+    });
+  }
+
+  res.json(result.data.map(formatWebhook));
+};
+
+const removeWebhook = async (req: Request, res: Response) => {
+  const { game, webhookId } = req.params;
+  const result = await deleteWebhook(game, webhookId);
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to delete webhook",
+    });
+  }
+  if (!result.data) {
+    return res.status(404).json({
+      error: "Webhook not found",
+      message: "No webhook with this id exists for the game",
+    });
+  }
+
+  webhookCache.delete(game);
+  res.json({ message: "Webhook deleted" });
+};
+
+// Send a test delivery now and answer with its outcome
+const testWebhook = async (req: Request, res: Response) => {
+  const { game, webhookId } = req.params;
+  const webhook = await findWebhook(game, webhookId);
+  if (!webhook.success) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to find webhook",
+    });
+  }
+  if (!webhook.data) {
+    return res.status(404).json({
+      error: "Webhook not found",
+      message: "No webhook with this id exists for the game",
+    });
+  }
+
+  const delivery = await queueDelivery(webhook.data, "test", {
+    message: "Test delivery",
+  });
+  if (!delivery) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to record webhook delivery",
+    });
+  }
+
+  res.json(formatDelivery(delivery));
+};
+
+const listDeliveries = async (req: Request, res: Response) => {
+  const { game, webhookId } = req.params;
+  const validationResult = await validateInput<WebhookDeliveriesQuery>(
+    webhookDeliveriesQuerySchema,
+    req.query
+  );
+
+  if (!validationResult.data) {
+    const errors = formatValidationErrors(validationResult.error);
+    return res.status(400).json({
+      error: "Invalid query parameters",
+      message: "Query validation failed",
+      details: errors,
+    });
+  }
+
+  const result = await findWebhookDeliveries(
+    game,
+    webhookId,
+    validationResult.data
+  );
+  if (!result.success || !result.data) {
+    return res.status(500).json({
+      error: "Database error",
+      message: "Failed to list webhook deliveries",
+    });
+  }
+
+  res.json(result.data.map(formatDelivery));
+};
+
+// Admin routes for the outbound webhooks of a game
+export const createWebhookRoutes = () => {
+  const router = express.Router({ mergeParams: true });
+
+  router.post("/", addWebhook);
+  router.get("/", listWebhooks);
+  router.delete("/:webhookId", removeWebhook);
+  router.post("/:webhookId/test", testWebhook);
+  router.get("/:webhookId/deliveries", listDeliveries);
+
+  return router;
+};